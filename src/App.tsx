@@ -1,25 +1,42 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { Moon, Sun } from "lucide-react";
+import { CalendarClock, Moon, Sun } from "lucide-react";
 import { MessageBubble } from "./components/chat/MessageBubble";
 import { ToolCard, type ToolUI } from "./components/chat/ToolCard";
 import { WeatherWidget } from "./components/chat/WeatherWidget";
 import { Button } from "./components/ui/button";
 import { SuggestionChips } from "./components/chat/SuggestionChips";
 import { useTheme } from "./theme/useTheme";
-import type { ModelId } from "./components/chat/ModelPicker";
 import { ChatInput } from "./components/chat/ChatInput";
-import { AgentClient, type AgentState } from "./agent/wsClient";
+import { MessageActions, EditBubble } from "./components/chat/MessageActions";
+import { SchedulesPanel } from "./components/chat/SchedulesPanel";
+import { SettingsDrawer } from "./components/chat/SettingsDrawer";
+import { AgentClient, type AgentState, type Msg, type McpServerConfig, type McpServerView, type ScheduledTask, type SessionSettings } from "./agent/wsClient";
+import { fetchModels, type ModelId, type ModelInfo } from "./agent/models";
+import type { CaptureMetrics } from "../worker/tools/types";
 
 export type ChatMessage =
-  | { id: string; role: "user" | "assistant"; content: string }
+  | { id: string; role: "user" | "assistant"; content: string; serverId?: number; siblings?: number[]; model?: string | null }
   | { id: string; role: "tool"; toolUI: ToolUI };
 
+// Card titles for tool rows persisted before rows carried their own title
+const LEGACY_TITLES: Record<string, string> = { getWeather: "Weather", screenshot: "Screenshot", convertToPdf: "PDF" };
+
 export default function App() {
   const hydratedRef = useRef(false);
   const { theme, setTheme } = useTheme();
-  const [model, setModel] = useState<ModelId>("@cf/meta/llama-4-scout-17b-16e-instruct");
+  const [model, setModel] = useState<ModelId>(""); // the session's, from `ready` (registry default until then)
+  const [models, setModels] = useState<ModelInfo[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [pending, setPending] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [tasks, setTasks] = useState<ScheduledTask[]>([]);
+  const [showTasks, setShowTasks] = useState(false);
+  const [expiredAt, setExpiredAt] = useState<number | null>(null);
+  const [settings, setSettings] = useState<SessionSettings>({});
+  const [settingsError, setSettingsError] = useState<string | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [mcpServers, setMcpServers] = useState<McpServerView[]>([]);
+  const [mcpError, setMcpError] = useState<string | null>(null);
   const clientRef = useRef<AgentClient | null>(null);
   const scrollRef = useRef<HTMLDivElement | null>(null);
 
@@ -42,35 +59,30 @@ export default function App() {
     return { kind: "weather", title, subtitle, data: result };
   }
 
-  // Progress helpers for getWeather
-  function initialWeatherProgress(): ToolUI {
+  // --- Generic progress helpers (steps come from the tool registry) ---------
+  type StepDef = { key: string; label: string };
+
+  function initialProgress(tool: string, title?: string, steps?: StepDef[]): ToolUI {
     return {
       kind: "progress",
-      title: "Weather",
-      subtitle: "Planning request…",
+      title: title ?? tool,
       progress: {
-        tool: "getWeather",
+        tool,
         phase: "running",
-        steps: [
-          { key: "plan",  label: "Planning",            state: "active" as const },
-          { key: "fetch", label: "Fetching Open-Meteo", state: "idle"   as const },
-          { key: "parse", label: "Parsing",             state: "idle"   as const },
-          { key: "final", label: "Finalizing",          state: "idle"   as const },
-        ],
+        steps: (steps ?? []).map((s, i) => ({ ...s, state: i === 0 ? ("active" as const) : ("idle" as const) })),
       },
     };
   }
-  function setStepState(ui: ToolUI, key: string, state: "idle" | "active" | "done" | "error"): ToolUI {
-    if (ui.kind !== "progress" || !ui.progress) return ui;
-    const steps = ui.progress.steps.map((s) => (s.key === key ? { ...s, state } : s));
+  // Everything before `key` is done, `key` becomes active
+  function tickProgress(ui: ToolUI, key?: string): ToolUI {
+    if (ui.kind !== "progress" || !ui.progress || !key) return ui;
+    const at = ui.progress.steps.findIndex((s) => s.key === key);
+    if (at === -1) return ui;
+    const steps = ui.progress.steps.map((s, i) =>
+      i < at ? { ...s, state: "done" as const } : i === at && s.state !== "done" ? { ...s, state: "active" as const } : s
+    );
     return { ...ui, progress: { ...ui.progress, steps } };
   }
-  function markSequence(ui: ToolUI, activate: string, doneKeys: string[]): ToolUI {
-    let next = ui;
-    for (const k of doneKeys) next = setStepState(next, k, "done");
-    next = setStepState(next, activate, "active");
-    return next;
-  }
   function finalizeProgress(ui: ToolUI): ToolUI {
     if (ui.kind !== "progress" || !ui.progress) return ui;
     const steps = ui.progress.steps.map((s) => (s.state === "done" ? s : { ...s, state: "done" as const }));
@@ -81,25 +93,66 @@ export default function App() {
     return { ...ui, progress: { ...ui.progress, phase: "error", error: msg, steps: ui.progress.steps } };
   }
 
-  // Maintain the latest PROGRESS card for getWeather
-  function upsertWeatherProgress(mutator: (prev?: ToolUI) => ToolUI) {
+  // Browser tool timings → card metrics (step durations + the navigation attempts it took)
+  function timingMetrics(m?: CaptureMetrics): ToolUI["metrics"] {
+    if (!m) return undefined;
+    const ms = (n: number) => (n < 1000 ? `${n} ms` : `${(n / 1000).toFixed(1)} s`);
+    const rows = [
+      { label: "Navigate", value: ms(m.navMs) },
+      { label: "Settle", value: ms(m.settleMs) },
+      m.renderMs !== undefined ? { label: "Render", value: ms(m.renderMs) } : { label: "Capture", value: ms(m.captureMs ?? 0) },
+      { label: "Upload", value: ms(m.uploadMs) },
+      { label: "Total", value: ms(m.totalMs) },
+    ];
+    if (m.navAttempts > 1) {
+      rows.push({ label: "Attempts", value: m.attempts.map((a) => `${a.waitUntil} ${a.outcome}`).join(" → ") });
+    }
+    return rows;
+  }
+
+  // Attach a result to its progress card (finalized on success, error state otherwise)
+  function withResult(ui: ToolUI, tool: string, result: unknown): ToolUI {
+    const r = (result ?? {}) as {
+      ok?: boolean; error?: string; url?: string; width?: number; height?: number; sourceUrl?: string;
+      task?: ScheduledTask; server?: string; tool?: string; text?: string; metrics?: CaptureMetrics;
+    };
+    if (r.ok === false) return { ...errorProgress(ui, r.error ?? "Something went wrong"), metrics: timingMetrics(r.metrics) };
+    const done = { ...finalizeProgress(ui), metrics: timingMetrics(r.metrics) };
+    if (tool === "screenshot" && r.url) {
+      return {
+        ...done,
+        subtitle: r.width && r.height ? `${r.width}×${r.height}` : r.sourceUrl ?? done.subtitle,
+        media: { type: "image", url: r.url },
+        downloadUrl: r.url,
+      };
+    }
+    if (tool === "convertToPdf" && r.url) {
+      return { ...done, subtitle: r.sourceUrl ?? done.subtitle, media: { type: "pdf", url: r.url }, downloadUrl: r.url };
+    }
+    if (tool === "scheduleTask" && r.task) {
+      return { ...done, subtitle: r.task.cron ? `${r.task.description} · cron ${r.task.cron} (UTC)` : r.task.description };
+    }
+    // External MCP tools: a text preview of what the server returned
+    if (tool === "mcp" && r.server) {
+      return { ...done, subtitle: `${r.server} · ${r.tool}`, media: { type: "text" }, data: r.text ?? "" };
+    }
+    return done;
+  }
+
+  // Maintain the PROGRESS card for one tool run (by callId; else the latest card for `tool`)
+  function upsertProgress(tool: string, callId: string | undefined, mutator: (prev?: ToolUI) => ToolUI) {
     setMessages((prev) => {
       const next = [...prev];
-      const revIdx = [...next].reverse().findIndex((m) => {
-        if (m.role !== "tool") return false;
-        const ui = m.toolUI;
-        return ui.kind === "progress" && ui.progress?.tool === "getWeather";
-      });
-      const idx = revIdx === -1 ? -1 : next.length - 1 - revIdx;
-
-      if (idx === -1) {
-        next.push({ id: crypto.randomUUID(), role: "tool", toolUI: mutator(undefined) });
-      } else {
-        const prevMsg = next[idx];
-        if (prevMsg.role === "tool") {
-          next[idx] = { id: prevMsg.id, role: "tool", toolUI: mutator(prevMsg.toolUI) };
-        }
+      const revIdx = [...next].reverse().findIndex((m) =>
+        callId ? m.id === callId : m.role === "tool" && m.toolUI.kind === "progress" && m.toolUI.progress?.tool === tool
+      );
+      if (revIdx === -1) {
+        next.push({ id: callId ?? crypto.randomUUID(), role: "tool", toolUI: mutator(undefined) });
+        return next;
       }
+      const idx = next.length - 1 - revIdx;
+      const cur = next[idx];
+      if (cur.role === "tool") next[idx] = { id: cur.id, role: "tool", toolUI: mutator(cur.toolUI) };
       return next;
     });
   }
@@ -110,150 +163,67 @@ export default function App() {
     setMessages((prev) => [...prev, { id: crypto.randomUUID(), role: "tool", toolUI: ui }]);
   }
 
-  // -------- Screenshot progress helpers --------------------------------------
-function initialScreenshotProgress(target: string): ToolUI {
-  return {
-    kind: "progress",
-    title: "Screenshot",
-    subtitle: target,
-    progress: {
-      tool: "screenshot",
-      phase: "running",
-      steps: [
-        { key: "normalize", label: "Normalize URL", state: "active" },
-        { key: "navigate",  label: "Open page",     state: "idle" },
-        { key: "settle",    label: "Settle",        state: "idle" },
-        { key: "capture",   label: "Capture",       state: "idle" },
-        { key: "upload",    label: "Upload",        state: "idle" },
-      ],
-    },
-  };
-}
-
-function tickScreenshotProgress(prev?: ToolUI, msg?: string): ToolUI {
-  if (!prev || prev.kind !== "progress" || prev.progress?.tool !== "screenshot") return prev ?? initialScreenshotProgress("page");
-  const p = prev.progress!;
-  const steps = [...p.steps];
-
-  const advance = (keyFrom: string, keyTo: string) => {
-    const iFrom = steps.findIndex(s => s.key === keyFrom);
-    const iTo   = steps.findIndex(s => s.key === keyTo);
-    if (iFrom >= 0) steps[iFrom] = { ...steps[iFrom], state: "done" };
-    if (iTo >= 0 && steps[iTo].state !== "done") steps[iTo] = { ...steps[iTo], state: "active" };
-  };
-
-  // Heuristic mapping from tool step messages to step transitions
-  const text = (msg ?? "").toLowerCase();
-  if (text.includes("launching browser")) advance("normalize", "navigate");
-  else if (text.startsWith("navigating") || text.includes("retrying with www")) advance("normalize", "navigate");
-  else if (text.includes("settling")) advance("navigate", "settle");
-  else if (text.includes("capturing")) advance("settle", "capture");
-  else if (text.includes("uploading")) advance("capture", "upload");
-
-  return { ...prev, progress: { ...p, steps } };
-}
-
-function finalizeScreenshotProgress(prev?: ToolUI, url?: string, dims?: { w?: number; h?: number }): ToolUI {
-  if (!prev || prev.kind !== "progress" || prev.progress?.tool !== "screenshot") return prev!;
-  const doneSteps = prev.progress!.steps.map(s => ({ ...s, state: "done" as const }));
-  return {
-    ...prev,
-    subtitle: dims?.w && dims?.h ? `${dims.w}×${dims.h}` : prev.subtitle,
-    progress: { ...prev.progress!, phase: "done", steps: doneSteps },
-    media: url ? { type: "image", url } : prev.media,
-    downloadUrl: url ?? prev.downloadUrl,
-  };
-}
-
-function errorScreenshotProgress(prev?: ToolUI, err?: string): ToolUI {
-  if (!prev || prev.kind !== "progress" || prev.progress?.tool !== "screenshot") return prev!;
-  return {
-    ...prev,
-    progress: { ...prev.progress!, phase: "error", error: err ?? "Screenshot failed." },
-  };
-}
-
-// -------- PDF progress helpers ---------------------------------------------
-function initialPdfProgress(target: string): ToolUI {
-  return {
-    kind: "progress",
-    title: "PDF",
-    subtitle: target,
-    progress: {
-      tool: "convertToPdf",
-      phase: "running",
-      steps: [
-        { key: "normalize", label: "Normalize URL", state: "active" },
-        { key: "navigate",  label: "Open page",     state: "idle" },
-        { key: "settle",    label: "Settle",        state: "idle" },
-        { key: "render",    label: "Render PDF",    state: "idle" },
-        { key: "upload",    label: "Upload",        state: "idle" },
-      ],
-    },
-  };
-}
-
-function tickPdfProgress(prev?: ToolUI, msg?: string): ToolUI {
-  if (!prev || prev.kind !== "progress" || prev.progress?.tool !== "convertToPdf") return prev ?? initialPdfProgress("page");
-  const p = prev.progress!;
-  const steps = [...p.steps];
-
-  const advance = (keyFrom: string, keyTo: string) => {
-    const iFrom = steps.findIndex(s => s.key === keyFrom);
-    const iTo   = steps.findIndex(s => s.key === keyTo);
-    if (iFrom >= 0) steps[iFrom] = { ...steps[iFrom], state: "done" };
-    if (iTo >= 0 && steps[iTo].state !== "done") steps[iTo] = { ...steps[iTo], state: "active" };
-  };
-
-  const text = (msg ?? "").toLowerCase();
-  if (text.includes("launching browser")) advance("normalize", "navigate");
-  else if (text.startsWith("navigating") || text.includes("retrying with www")) advance("normalize", "navigate");
-  else if (text.includes("settling")) advance("navigate", "settle");
-  else if (text.includes("rendering pdf")) advance("settle", "render");
-  else if (text.includes("uploading")) advance("render", "upload");
-
-  return { ...prev, progress: { ...p, steps } };
-}
-
-function finalizePdfProgress(prev?: ToolUI, url?: string): ToolUI {
-  if (!prev || prev.kind !== "progress" || prev.progress?.tool !== "convertToPdf") return prev!;
-  const doneSteps = prev.progress!.steps.map(s => ({ ...s, state: "done" as const }));
-  return {
-    ...prev,
-    progress: { ...prev.progress!, phase: "done", steps: doneSteps },
-    media: url ? { type: "pdf", url } : prev.media,
-    downloadUrl: url ?? prev.downloadUrl,
-  };
-}
-
-function errorPdfProgress(prev?: ToolUI, err?: string): ToolUI {
-  if (!prev || prev.kind !== "progress" || prev.progress?.tool !== "convertToPdf") return prev!;
-  return { ...prev, progress: { ...prev.progress!, phase: "error", error: err ?? "PDF failed." } };
-}
-
-// -------- Upsert helpers for screenshot/pdf ---------------------------------
-function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: ToolUI) => ToolUI) {
-  setMessages((prev) => {
-    const next = [...prev];
-    const revIdx = [...next].reverse().findIndex((m) => m.role === "tool" && m.toolUI.kind === "progress" && m.toolUI.progress?.tool === tool);
-    if (revIdx === -1) {
-      // nothing to update
-      next.push({ id: crypto.randomUUID(), role: "tool", toolUI: mutator(undefined) });
-      return next;
+  // --- Rebuild the chat from persisted rows (ready/history frames) ---------
+  function restoreMessages(msgs: Msg[]): ChatMessage[] {
+    const restored: ChatMessage[] = [];
+    for (const m of msgs) {
+      if (m.role === "tool") {
+        try {
+          // All persisted tool rows have shape: { type: "tool_result", tool, title?, steps?, result }
+          const parsed = JSON.parse(m.content) as {
+            type?: string;
+            tool?: string;
+            callId?: string;
+            title?: string;
+            steps?: StepDef[];
+            result?: unknown;
+          };
+
+          if (parsed?.type === "tool_result" && parsed.tool) {
+            const base = initialProgress(parsed.tool, parsed.title ?? LEGACY_TITLES[parsed.tool], parsed.steps);
+            restored.push({
+              id: parsed.callId ?? `row-${m.id}`,
+              role: "tool",
+              toolUI: withResult(base, parsed.tool, parsed.result),
+            });
+            if (parsed.tool === "getWeather" && (parsed.result as { ok?: boolean } | undefined)?.ok) {
+              restored.push({
+                id: `row-${m.id}-weather`,
+                role: "tool",
+                toolUI: uiFromWeather(parsed.result as import("../worker/tools/getWeather").WeatherResult),
+              });
+            }
+            continue;
+          }
+        } catch { /* ignore */ }
+
+        // Unknown row → neutral card so users still see "a tool ran"
+        restored.push({
+          id: `row-${m.id}`,
+          role: "tool",
+          toolUI: { kind: "generic", title: "Tool", subtitle: "Result available" },
+        });
+      } else {
+        restored.push({
+          id: String(m.id),
+          role: m.role,
+          content: m.content,
+          serverId: m.id,
+          siblings: m.siblings,
+          model: m.model,
+        });
+      }
     }
-    const idx = next.length - 1 - revIdx;
-    const cur = next[idx]!.toolUI;
-    next[idx] = { ...next[idx]!, toolUI: mutator(cur) };
-    return next;
-  });
-}
-
+    return restored;
+  }
 
   useEffect(() => {
-    // Align cookie with the WS/session sid from localStorage
-    const sid = localStorage.getItem("sessionId");
-    const url = sid ? `/api/session?sid=${encodeURIComponent(sid)}` : `/api/session`;
-    fetch(url, { method: "GET", credentials: "include" }).catch(() => {});
+    fetchModels()
+      .then((r) => {
+        setModels(r.models);
+        setModel((m) => m || r.defaultModel);
+      })
+      .catch((e) => console.log("[ui] models unavailable", e));
   }, []);
 
   // --- Autoscroll -----------------------------------------------------------
@@ -268,88 +238,30 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
 
     client.onReady = (s: AgentState) => {
       console.log("[ui] ready", s);
-      setModel(s.model as ModelId);
+      setModel(s.model);
+      setExpiredAt(s.expiredAt ?? null);
+      setSettings(s.settings ?? {});
 
-      // Hydrate chat from server exactly once
+      // Hydrate chat from server exactly once (later syncs arrive as `history`)
       if (!hydratedRef.current) {
         const msgs = Array.isArray(s.messages) ? s.messages : [];
-        if (msgs.length) {
-          const restored: ChatMessage[] = [];
-          for (const m of msgs) {
-            if (m.role === "tool") {
-              try {
-                const parsed = JSON.parse(m.content) as {
-                  type?: string;
-                  tool?: string;
-                  result?: unknown;
-                };
-            
-                // All persisted tool rows have shape: { type: "tool_result", tool, result }
-                if (parsed?.type === "tool_result") {
-                  if (parsed.tool === "getWeather" && parsed.result) {
-                    const wx = parsed.result as import("../worker/tools/getWeather").WeatherResult;
-                    restored.push({
-                      id: crypto.randomUUID(),
-                      role: "tool",
-                      toolUI: finalizeProgress(initialWeatherProgress()),
-                    });
-                    restored.push({
-                      id: crypto.randomUUID(),
-                      role: "tool",
-                      toolUI: uiFromWeather(wx),
-                    });
-                    continue;
-                  }
-            
-                  if (parsed.tool === "screenshot" && (parsed.result as any)?.ok) {
-                    const r = parsed.result as { url: string; width?: number; height?: number; sourceUrl?: string };
-                    restored.push({
-                      id: crypto.randomUUID(),
-                      role: "tool",
-                      toolUI: finalizeScreenshotProgress(
-                        initialScreenshotProgress(r.sourceUrl ?? "Screenshot"),
-                        r.url,
-                        { w: r.width, h: r.height }
-                      ),
-                    });
-                    continue;
-                  }
-            
-                  if (parsed.tool === "convertToPdf" && (parsed.result as any)?.ok) {
-                    const r = parsed.result as { url: string; sourceUrl?: string };
-                    restored.push({
-                      id: crypto.randomUUID(),
-                      role: "tool",
-                      toolUI: finalizePdfProgress(
-                        initialPdfProgress(r.sourceUrl ?? "PDF"),
-                        r.url
-                      ),
-                    });
-                    continue;
-                  }
-                }
-              } catch { /* ignore */ }
-            
-              // Unknown tool → neutral card so users still see "a tool ran"
-              restored.push({
-                id: crypto.randomUUID(),
-                role: "tool",
-                toolUI: { kind: "generic", title: "Tool", subtitle: "Result available" },
-              });
-            } else {
-              restored.push({
-                id: crypto.randomUUID(),
-                role: m.role,
-                content: m.content,
-              });
-            }
-          }
-          setMessages(restored);
-        }
+        if (msgs.length) setMessages(restoreMessages(msgs));
         hydratedRef.current = true;
       }
     };
 
+    // Active branch after a turn, regenerate/edit, or branch switch
+    client.onHistory = (msgs) => {
+      setMessages(restoreMessages(msgs));
+      hydratedRef.current = true;
+    };
+
+    // Prompt typed in another tab/device on this session
+    client.onUser = (t) => {
+      setMessages((m) => [...m, { id: crypto.randomUUID(), role: "user", content: t }]);
+      setPending(true);
+    };
+
     client.onDelta = (t) => {
       setPending(true);
       setMessages((m) => {
@@ -364,94 +276,59 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
     };
 
     client.onTool = (evt) => {
-      // ---- getWeather (unchanged) ---------------------------------------------
-      if (evt.tool === "getWeather") {
-        if (evt.status === "started") {
-          setMessages((prev) => [
-            ...prev,
-            { id: crypto.randomUUID(), role: "tool", toolUI: initialWeatherProgress() },
-          ]);
-        } else if (evt.status === "step") {
-          const msg = (evt.message ?? "").toLowerCase();
-          upsertWeatherProgress((prev) => {
-            const base = prev && prev.kind === "progress" ? prev : initialWeatherProgress();
-            if (msg.includes("fetch")) return markSequence(base, "fetch", ["plan"]);
-            if (msg.includes("pars"))  return markSequence(base, "parse", ["plan", "fetch"]);
-            if (msg.includes("final")) return markSequence(base, "final", ["plan", "fetch", "parse"]);
-            return base;
-          });
-        } else if (evt.status === "done") {
-          upsertWeatherProgress((prev) => finalizeProgress(prev ?? initialWeatherProgress()));
+      // a running tool keeps the turn pending (Stop stays available)
+      if (evt.status === "started" || evt.status === "step") setPending(true);
+      if (evt.status === "started") {
+        setMessages((prev) => [
+          ...prev,
+          { id: evt.callId ?? crypto.randomUUID(), role: "tool", toolUI: initialProgress(evt.tool, evt.title, evt.steps) },
+        ]);
+      } else if (evt.status === "step") {
+        upsertProgress(evt.tool, evt.callId, (prev) => tickProgress(prev ?? initialProgress(evt.tool, evt.title, evt.steps), evt.step));
+      } else if (evt.status === "done") {
+        upsertProgress(evt.tool, evt.callId, (prev) => withResult(prev ?? initialProgress(evt.tool, evt.title), evt.tool, evt.result));
+        if (evt.tool === "getWeather") {
           appendWeatherWidget(evt.result as import("../worker/tools/getWeather").WeatherResult);
-        } else if (evt.status === "error") {
-          upsertWeatherProgress((prev) =>
-            errorProgress(prev ?? initialWeatherProgress(), evt.message ?? "Something went wrong")
-          );
-        }
-        return;
-      }
-    
-      // ---- screenshot ----------------------------------------------------------
-      if (evt.tool === "screenshot") {
-        if (evt.status === "started") {
-          setMessages((prev) => [
-            ...prev,
-            { id: crypto.randomUUID(), role: "tool", toolUI: initialScreenshotProgress("page") },
-          ]);
-          return;
-        }
-        if (evt.status === "step") {
-          upsertProgress("screenshot", (prev) => tickScreenshotProgress(prev, evt.message));
-          return;
-        }
-        if (evt.status === "error") {
-          upsertProgress("screenshot", (prev) => errorScreenshotProgress(prev, evt.message));
-          return;
-        }
-        if (evt.status === "done") {
-          const r = evt.result as { ok?: boolean; url?: string; width?: number; height?: number } | undefined;
-          if (r && (r as any).ok) {
-            upsertProgress("screenshot", (prev) =>
-              finalizeScreenshotProgress(prev, r!.url, { w: r!.width, h: r!.height })
-            );
-          } else {
-            upsertProgress("screenshot", (prev) => errorScreenshotProgress(prev, "Failed to capture."));
-          }
-          return;
-        }
-      }
-    
-      // ---- convertToPdf --------------------------------------------------------
-      if (evt.tool === "convertToPdf") {
-        if (evt.status === "started") {
-          setMessages((prev) => [
-            ...prev,
-            { id: crypto.randomUUID(), role: "tool", toolUI: initialPdfProgress("page") },
-          ]);
-          return;
-        }
-        if (evt.status === "step") {
-          upsertProgress("convertToPdf", (prev) => tickPdfProgress(prev, evt.message));
-          return;
-        }
-        if (evt.status === "error") {
-          upsertProgress("convertToPdf", (prev) => errorPdfProgress(prev, evt.message));
-          return;
-        }
-        if (evt.status === "done") {
-          const r = evt.result as { ok?: boolean; url?: string } | undefined;
-          if (r && (r as any).ok) {
-            upsertProgress("convertToPdf", (prev) => finalizePdfProgress(prev, r!.url));
-          } else {
-            upsertProgress("convertToPdf", (prev) => errorPdfProgress(prev, "Failed to render PDF."));
-          }
-          return;
         }
+      } else if (evt.status === "error") {
+        // the failed result carries the timings measured before the run stopped
+        upsertProgress(evt.tool, evt.callId, (prev) => {
+          const ui = prev ?? initialProgress(evt.tool, evt.title);
+          return evt.result ? withResult(ui, evt.tool, evt.result) : errorProgress(ui, evt.message ?? "Something went wrong");
+        });
       }
-    
-      // other tools → ignore for now
     };
-    
+
+    // Pending scheduled tasks (sent on connect and after every change)
+    client.onSchedules = setTasks;
+
+    // Retention job wiped this session (messages, tasks, files)
+    client.onExpired = (at) => {
+      setMessages([]);
+      setTasks([]);
+      setPending(false);
+      setEditingId(null);
+      setExpiredAt(at);
+    };
+
+    // Model switched from another tab, or our choice was rejected (server keeps its model)
+    client.onModel = (m, error) => {
+      if (error) console.log("[ui] model rejected:", error);
+      setModel(m);
+    };
+
+    // Settings saved (by any tab) or rejected; a rejection keeps the drawer open
+    client.onSettings = (s, error) => {
+      setSettings(s);
+      setSettingsError(error ?? null);
+      if (!error) setShowSettings(false);
+    };
+
+    // External MCP servers after any change (state, tools, authorization) or a rejected request
+    client.onMcp = (servers, error) => {
+      setMcpServers(servers);
+      setMcpError(error ?? null);
+    };
 
     client.onDone = () => setPending(false);
     client.onCleared = () => {
@@ -460,16 +337,10 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
     };
 
     const maybeConnect = async () => {
-      // @ts-expect-error tiny helper may not be typed on your AgentClient
-      if (client.isOpen?.() || client.isConnecting?.()) return;
+      if (client.isOpen()) return;
       try {
+        // The session keeps its own model/fallbacks; `ready` tells us which
         await client.connect();
-        // @ts-expect-error flag on the instance to avoid duplicate “model set”
-        if (!client._initialModelSent) {
-          client.setModel(model);
-          // @ts-expect-error flag
-          client._initialModelSent = true;
-        }
       } catch (e) {
         console.log("[ws] connect suppressed (dev)", e);
       }
@@ -482,15 +353,59 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
 
   // --- actions --------------------------------------------------------------
   function send(text: string) {
+    setExpiredAt(null);
     setMessages((m) => [...m, { id: crypto.randomUUID(), role: "user", content: text }]);
     setPending(true);
     clientRef.current?.chat(text);
   }
+  function stop() {
+    clientRef.current?.cancel();
+    setPending(false);
+  }
   function changeModel(next: ModelId) {
     setModel(next);
     clientRef.current?.setModel(next);
   }
+  // --- branching: server answers with a `history` frame for the new branch ---
+  function regenerate(id: number) {
+    setPending(true);
+    clientRef.current?.regenerate(id);
+  }
+  function saveEdit(id: number, text: string) {
+    setEditingId(null);
+    setPending(true);
+    clientRef.current?.edit(id, text);
+  }
+  function branchTo(id: number) {
+    clientRef.current?.branch(id);
+  }
+  // Regenerate sits on the last assistant line of a turn
+  function isTurnEnd(i: number): boolean {
+    const next = messages[i + 1];
+    return messages[i]?.role === "assistant" && (!next || next.role === "user");
+  }
+  function saveSettings(next: SessionSettings) {
+    clientRef.current?.saveSettings(next);
+  }
+  function addMcpServer(server: McpServerConfig) {
+    clientRef.current?.addMcpServer(server);
+  }
+  function removeMcpServer(id: string) {
+    clientRef.current?.removeMcpServer(id);
+  }
+  function setMcpAllow(id: string, allow: string[] | null) {
+    clientRef.current?.setMcpAllow(id, allow);
+  }
+  function cancelTask(id: string) {
+    clientRef.current?.unschedule(id);
+  }
+  // Assistant lines written by a fallback model say which one answered
+  function fallbackNote(answeredBy?: string | null): string | undefined {
+    if (!answeredBy || answeredBy === model) return undefined;
+    return `via ${models.find((x) => x.id === answeredBy)?.name ?? answeredBy}`;
+  }
   function resetChat() {
+    setExpiredAt(null);
     clientRef.current?.reset();
     setMessages([]);
   }
@@ -512,16 +427,40 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
               >
                 {theme === "dark" ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
               </Button>
+              <Button
+                variant={showTasks ? "outline" : "ghost"}
+                aria-label="scheduled tasks"
+                onClick={() => setShowTasks((v) => !v)}
+                title="Scheduled tasks"
+              >
+                <CalendarClock className="h-5 w-5" />
+                {tasks.length > 0 && <span className="ml-1 tabular-nums">{tasks.length}</span>}
+              </Button>
               <Button variant="outline" onClick={resetChat} disabled={!canReset} title="Reset chat">
                 Reset
               </Button>
             </div>
           </header>
 
+          {showTasks && <SchedulesPanel tasks={tasks} onCancel={cancelTask} />}
+
           <section className="card-surface h-[min(84svh,900px)] p-3">
             <div className="flex h-full flex-col">
               <div ref={scrollRef} className="chat-scroll flex-1 overflow-y-auto px-1 py-2">
-                {messages.length === 0 ? (
+                {messages.length === 0 && expiredAt ? (
+                  <div className="grid h-full place-items-center">
+                    <div className="max-w-md text-center">
+                      <h2 className="mb-2 text-2xl font-medium">Session expired</h2>
+                      <p className="mb-4 text-neutral-600 dark:text-neutral-300">
+                        This session was inactive for too long, so its conversation, scheduled tasks and files were
+                        deleted on {new Date(expiredAt).toLocaleString()}.
+                      </p>
+                      <Button variant="outline" onClick={resetChat}>
+                        Start a new chat
+                      </Button>
+                    </div>
+                  </div>
+                ) : messages.length === 0 ? (
                   <div className="grid h-full place-items-center">
                     <div className="max-w-md text-center">
                       <h2 className="mb-2 text-2xl font-medium">Agent Starter Template</h2>
@@ -534,6 +473,7 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
                           <li>Get Weather Forecast</li>
                           <li>Browse/Screenshot</li>
                           <li>Convert to PDF</li>
+                          <li>Scheduled &amp; recurring tasks</li>
                         </ul>
                       </div>
                       <SuggestionChips onPick={send} />
@@ -541,7 +481,7 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
                   </div>
                 ) : (
                   <div className="flex flex-col gap-3">
-                    {messages.map((m) =>
+                    {messages.map((m, i) =>
                       isToolMessage(m) ? (
                         <div key={m.id} className="px-1">
                           {m.toolUI.kind === "weather" ? (
@@ -554,7 +494,27 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
                         </div>
                       ) : (
                         <div key={m.id} className="px-1">
-                          <MessageBubble role={m.role}>{m.content}</MessageBubble>
+                          {editingId === m.id && m.serverId !== undefined ? (
+                            <EditBubble
+                              initial={m.content}
+                              onSave={(text) => saveEdit(m.serverId!, text)}
+                              onCancel={() => setEditingId(null)}
+                            />
+                          ) : (
+                            <MessageBubble role={m.role}>{m.content}</MessageBubble>
+                          )}
+                          {m.serverId !== undefined && editingId !== m.id && (
+                            <MessageActions
+                              role={m.role}
+                              id={m.serverId}
+                              siblings={m.siblings}
+                              disabled={pending}
+                              onBranch={branchTo}
+                              onEdit={m.role === "user" ? () => setEditingId(m.id) : undefined}
+                              onRegenerate={isTurnEnd(i) ? regenerate : undefined}
+                              note={m.role === "assistant" ? fallbackNote(m.model) : undefined}
+                            />
+                          )}
                         </div>
                       )
                     )}
@@ -568,12 +528,35 @@ function upsertProgress(tool: "screenshot" | "convertToPdf", mutator: (prev?: To
               </div>
 
               <div className="mt-2">
-                <ChatInput onSend={send} disabled={pending} model={model} onModelChange={changeModel} />
+                <ChatInput
+                  onSend={send}
+                  onStop={stop}
+                  disabled={pending}
+                  pending={pending}
+                  model={model}
+                  models={models}
+                  onModelChange={changeModel}
+                  onOpenSettings={() => { setSettingsError(null); setShowSettings(true); }}
+                />
               </div>
             </div>
           </section>
         </div>
       </div>
+
+      {showSettings && (
+        <SettingsDrawer
+          settings={settings}
+          error={settingsError}
+          onSave={saveSettings}
+          mcpServers={mcpServers}
+          mcpError={mcpError}
+          onAddMcp={addMcpServer}
+          onRemoveMcp={removeMcpServer}
+          onSetMcpAllow={setMcpAllow}
+          onClose={() => setShowSettings(false)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,63 @@
+// src/agent/admin.ts
+import type { SessionSummary, ToolUsage } from "../../worker/admin";
+import type { ArtifactInfo } from "../../worker/files";
+
+export type { SessionSummary, ToolUsage };
+
+/** Every stored row of a session (all branches), as the admin API returns it */
+export type AdminRow = {
+  id: number;
+  parentId: number | null;
+  role: "user" | "assistant" | "tool";
+  content: string;
+  ts: number;
+  model: string | null;
+  promptTokens: number | null;
+  completionTokens: number | null;
+};
+
+export type SessionDetail = {
+  session: Omit<SessionSummary, "markerExpiresAt">;
+  marker: boolean;
+  leafId: number | null;
+  messages: AdminRow[];
+  files: Array<Omit<ArtifactInfo, "urlExpiresAt">>; // url: admin route (needs the admin token)
+};
+
+export type Usage = {
+  sessions: number;
+  truncated: boolean; // more sessions than one scan covers
+  messages: number;
+  tokens: { prompt: number; completion: number };
+  storage: { files: number; bytes: number };
+  tools: ToolUsage;
+};
+
+/** /api/admin client; the operator's ADMIN_TOKEN is kept for this tab only */
+export class AdminClient {
+  private token: string;
+  constructor(token: string) { this.token = token; }
+
+  async #call<T>(path: string, method = "GET"): Promise<T> {
+    const r = await fetch(`/api/admin/${path}`, { method, headers: { Authorization: `Bearer ${this.token}` } });
+    if (!r.ok) {
+      const body = (await r.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(body?.error ?? `HTTP ${r.status}`);
+    }
+    return (await r.json()) as T;
+  }
+
+  sessions(cursor?: string | null) {
+    return this.#call<{ sessions: SessionSummary[]; cursor: string | null }>(`sessions${cursor ? `?cursor=${encodeURIComponent(cursor)}` : ""}`);
+  }
+  session(sid: string) { return this.#call<SessionDetail>(`sessions/${sid}`); }
+  deleteSession(sid: string) { return this.#call<{ deleted: boolean; files: number }>(`sessions/${sid}`, "DELETE"); }
+  usage() { return this.#call<Usage>("usage"); }
+
+  /** Open an artifact in a new tab (the admin route needs the Bearer header, so go through a blob) */
+  async openFile(url: string) {
+    const r = await fetch(url, { headers: { Authorization: `Bearer ${this.token}` } });
+    if (!r.ok) throw new Error(`HTTP ${r.status}`);
+    window.open(URL.createObjectURL(await r.blob()), "_blank", "noopener");
+  }
+}
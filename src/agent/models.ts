@@ -0,0 +1,19 @@
+// src/agent/models.ts
+import type { ModelInfo } from "../../worker/models";
+
+export type { ModelInfo };
+
+/** Workers AI model id (see worker/models.ts) */
+export type ModelId = string;
+
+/** Model registry from the worker (GET /api/models) */
+export async function fetchModels(): Promise<{ models: ModelInfo[]; defaultModel: string }> {
+  const r = await fetch("/api/models");
+  if (!r.ok) throw new Error(`models: HTTP ${r.status}`);
+  return (await r.json()) as { models: ModelInfo[]; defaultModel: string };
+}
+
+/** Picker label; tool-less models can only chat */
+export function modelLabel(m: ModelInfo): string {
+  return m.tools ? m.name : `${m.name} (no tools)`;
+}
@@ -1,36 +1,94 @@
 // src/agent/wsClient.ts
-export type AgentState = { model: string; messages: Msg[]; createdAt: number; expiresAt: number };
+import type { SessionSettings } from "../../worker/settings";
+import type { McpServerConfig, McpServerView } from "../../worker/tools/remoteMcp";
 
-type ReadyMsg   = { type: "ready";   state: AgentState };
-type DeltaMsg   = { type: "delta";   text: string };
-type DoneMsg    = { type: "done" };
-type ClearedMsg = { type: "cleared" };
-type Msg = { role: "user" | "assistant" | "tool"; content: string; ts: number };
+export type { SessionSettings, McpServerConfig, McpServerView };
+export type AgentState = {
+  model: string;
+  messages: Msg[];
+  leafId: number | null;
+  createdAt: number;
+  expiresAt: number;
+  expiredAt?: number | null; // set when the retention job wiped this session
+  settings?: SessionSettings;
+};
+
+// Every frame except `ready` carries `origin`: the connection id that caused it
+type Origin     = { origin?: string | null };
+type ReadyMsg   = { type: "ready";   state: AgentState; connectionId?: string; tasks?: ScheduledTask[]; mcp?: McpServerView[] };
+type UserMsg    = { type: "user";    text: string } & Origin;
+type DeltaMsg   = { type: "delta";   text: string } & Origin;
+type DoneMsg    = { type: "done" } & Origin;
+type ClearedMsg = { type: "cleared" } & Origin;
+type HistoryMsg = { type: "history"; messages: Msg[] } & Origin; // active branch after a turn/branch switch
+type ModelMsg   = { type: "model"; model: string; error?: string } & Origin; // model changed (or rejected)
+type SettingsMsg = { type: "settings"; settings: SessionSettings; error?: string } & Origin; // saved (or rejected)
+type ExpiredMsg = { type: "expired"; expiredAt: number } & Origin; // retention job wiped messages + files
+type SchedulesMsg = { type: "schedules"; tasks: ScheduledTask[] } & Origin; // pending tasks after any change
+type McpMsg     = { type: "mcp"; servers: McpServerView[]; error?: string } & Origin; // external MCP servers after a change (or rejection)
+/** A pending scheduled task (see the scheduleTask tool) */
+export type ScheduledTask = {
+  id: string;
+  description: string;
+  tool: string;                              // function name, or "reminder"
+  type: "scheduled" | "delayed" | "cron";
+  time: number;                              // next run (epoch ms)
+  cron?: string;                             // UTC
+};
+/** One persisted row on the active branch; `siblings` lists ids sharing its parent */
+export type Msg = {
+  id: number;
+  parentId: number | null;
+  role: "user" | "assistant" | "tool";
+  content: string;
+  ts: number;
+  model?: string | null; // assistant rows: model that answered (may be a fallback)
+  siblings?: number[];
+};
 type ToolMsg = {
   type: "tool";
   tool: string;
+  callId?: string;                              // one id per tool run (one card per step)
   status?: "started" | "step" | "done" | "error";
   message?: string;
+  code?: string;                                // error: e.g. "CANCELLED"
   result?: unknown;
-};
-type ServerMsg  = ReadyMsg | DeltaMsg | DoneMsg | ClearedMsg | ToolMsg;
+  title?: string;                               // started: card title
+  steps?: Array<{ key: string; label: string }>; // started: ordered progress steps
+  step?: string;                                // step: key of the step now active
+} & Origin;
+type ServerMsg  = ReadyMsg | UserMsg | DeltaMsg | DoneMsg | ClearedMsg | HistoryMsg | ModelMsg | SettingsMsg | ExpiredMsg | SchedulesMsg | McpMsg | ToolMsg;
 
-function getSessionId(): string {
-  const k = "sessionId";
-  let v = localStorage.getItem(k);
-  if (!v) { v = crypto.randomUUID(); localStorage.setItem(k, v); }
-  return v;
+/**
+ * The worker picks the session id and signs it into the HttpOnly cf_session
+ * cookie; the WS upgrade is rejected unless the cookie matches the sid in the URL.
+ */
+async function fetchSessionId(): Promise<string> {
+  localStorage.removeItem("sessionId"); // client-chosen ids are no longer accepted
+  const res = await fetch("/api/session", { credentials: "include" });
+  if (!res.ok) throw new Error(`session request failed (${res.status})`);
+  const { sessionId } = (await res.json()) as { sessionId: string };
+  return sessionId;
 }
 
 export class AgentClient {
   private ws?: WebSocket;
-  private sid = getSessionId();
+  private sid?: string;
   private connecting = false;
+  /** Server-side id of this socket; frames with this origin were caused by us */
+  connectionId?: string;
 
   onReady?:   (s: AgentState) => void;
+  onUser?:    (t: string) => void; // prompt sent from another tab/device
   onDelta?:   (t: string) => void;
   onDone?:    () => void;
   onCleared?: () => void;
+  onHistory?: (messages: Msg[]) => void;
+  onSchedules?: (tasks: ScheduledTask[]) => void;
+  onExpired?: (expiredAt: number) => void;
+  onModel?: (model: string, error?: string) => void;
+  onSettings?: (settings: SessionSettings, error?: string) => void;
+  onMcp?: (servers: McpServerView[], error?: string) => void;
   onTool?: (evt: ToolMsg) => void;
   isOpen(): boolean {
     return this.ws?.readyState === WebSocket.OPEN;
@@ -40,6 +98,14 @@ export class AgentClient {
     if (this.isOpen() || this.connecting) return; // StrictMode guard
     this.connecting = true;
 
+    try {
+      this.sid = await fetchSessionId();
+    } catch (e) {
+      console.log("[ws] no session", e);
+      this.connecting = false;
+      return;
+    }
+
     const proto = location.protocol === "https:" ? "wss" : "ws";
     const url   = `${proto}://${location.host}/agents/ai-agent/${this.sid}`;
     console.log("[ws] connecting", { url, sessionId: this.sid });
@@ -54,10 +120,22 @@ export class AgentClient {
       this.ws.onmessage = (ev) => {
         try {
           const msg = JSON.parse(String(ev.data)) as ServerMsg;
-          if (msg.type === "ready")   this.onReady?.(msg.state);
+          if (msg.type === "ready") {
+            this.connectionId = msg.connectionId;
+            this.onReady?.(msg.state);
+            this.onSchedules?.(msg.tasks ?? []);
+            this.onMcp?.(msg.mcp ?? []);
+          }
+          else if (msg.type === "user")    { if (msg.origin !== this.connectionId) this.onUser?.(msg.text); }
           else if (msg.type === "delta")   this.onDelta?.(msg.text);
           else if (msg.type === "done")    this.onDone?.();
           else if (msg.type === "cleared") this.onCleared?.();
+          else if (msg.type === "history") this.onHistory?.(msg.messages);
+          else if (msg.type === "schedules") this.onSchedules?.(msg.tasks);
+          else if (msg.type === "expired") this.onExpired?.(msg.expiredAt);
+          else if (msg.type === "model")   this.onModel?.(msg.model, msg.error);
+          else if (msg.type === "settings") this.onSettings?.(msg.settings, msg.error);
+          else if (msg.type === "mcp")     this.onMcp?.(msg.servers, msg.error);
           else if (msg.type === "tool")    this.onTool?.(msg as ToolMsg);
         } catch {
           console.log("[ws] non-JSON", ev.data);
@@ -66,9 +144,18 @@ export class AgentClient {
     });
   }
 
-  setModel(model: string) { this.#send({ type: "model", model }); }
+  setModel(model: string, fallbacks?: string[]) { this.#send({ type: "model", model, fallbacks }); }
+  saveSettings(settings: SessionSettings) { this.#send({ type: "settings", settings }); }
   reset()                 { this.#send({ type: "reset" }); }
   chat(text: string)      { this.#send({ type: "chat", text }); }
+  cancel()                { this.#send({ type: "cancel" }); }
+  regenerate(id: number)  { this.#send({ type: "regenerate", id }); }
+  edit(id: number, text: string) { this.#send({ type: "edit", id, text }); }
+  branch(id: number)      { this.#send({ type: "branch", id }); }
+  unschedule(taskId: string) { this.#send({ type: "unschedule", taskId }); }
+  addMcpServer(server: McpServerConfig) { this.#send({ type: "mcp_add", server }); }
+  removeMcpServer(serverId: string) { this.#send({ type: "mcp_remove", serverId }); }
+  setMcpAllow(serverId: string, allow: string[] | null) { this.#send({ type: "mcp_allow", serverId, allow }); }
   close()                 { this.ws?.close(); }
 
   #send(obj: unknown) {
@@ -0,0 +1,284 @@
+import { useCallback, useEffect, useState } from "react";
+import { Moon, RefreshCw, Sun, Trash2, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { useTheme } from "../../theme/useTheme";
+import { AdminClient, type AdminRow, type SessionDetail, type SessionSummary, type Usage } from "../../agent/admin";
+
+const TOKEN_KEY = "adminToken"; // sessionStorage: forgotten when the tab closes
+
+const field = "w-full rounded-xl border border-neutral-300 bg-transparent px-3 py-2 text-sm outline-none dark:border-neutral-700";
+
+function bytes(n: number): string {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(1)} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function when(ms: number | null | undefined): string {
+  return ms ? new Date(ms).toLocaleString() : "—";
+}
+
+/** Tool rows are JSON; show "tool · ok/error" instead of the raw payload */
+function rowText(r: AdminRow): string {
+  if (r.role !== "tool") return r.content;
+  try {
+    const row = JSON.parse(r.content) as { tool?: string; result?: { ok?: boolean; error?: string } };
+    return `${row.tool ?? "tool"} · ${row.result?.ok ? "ok" : `error: ${row.result?.error ?? "unknown"}`}`;
+  } catch {
+    return r.content;
+  }
+}
+
+/** Operator console at /admin: sessions, transcripts, deletion and tool usage (GET/DELETE /api/admin/...) */
+export function AdminPage() {
+  const { theme, setTheme } = useTheme();
+  const [token, setToken] = useState(() => sessionStorage.getItem(TOKEN_KEY) ?? "");
+  const [draft, setDraft] = useState("");
+  const [client, setClient] = useState<AdminClient | null>(() => (token ? new AdminClient(token) : null));
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [usage, setUsage] = useState<Usage | null>(null);
+  const [detail, setDetail] = useState<SessionDetail | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fail = (e: unknown) => setError(e instanceof Error ? e.message : String(e));
+
+  const load = useCallback(async () => {
+    if (!client) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const [page, u] = await Promise.all([client.sessions(), client.usage()]);
+      setSessions(page.sessions);
+      setCursor(page.cursor);
+      setUsage(u);
+    } catch (e) {
+      fail(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => { void load(); }, [load]);
+
+  function signIn() {
+    const t = draft.trim();
+    if (!t) return;
+    sessionStorage.setItem(TOKEN_KEY, t);
+    setToken(t);
+    setClient(new AdminClient(t));
+    setDraft("");
+  }
+  function signOut() {
+    sessionStorage.removeItem(TOKEN_KEY);
+    setToken("");
+    setClient(null);
+    setSessions([]);
+    setUsage(null);
+    setDetail(null);
+  }
+
+  async function more() {
+    if (!client || !cursor) return;
+    try {
+      const page = await client.sessions(cursor);
+      setSessions((prev) => [...prev, ...page.sessions]);
+      setCursor(page.cursor);
+    } catch (e) {
+      fail(e);
+    }
+  }
+
+  async function inspect(sid: string) {
+    if (!client) return;
+    try {
+      setDetail(await client.session(sid));
+    } catch (e) {
+      fail(e);
+    }
+  }
+
+  async function remove(sid: string) {
+    if (!client || !window.confirm(`Delete session ${sid}, its transcript and its files?`)) return;
+    try {
+      await client.deleteSession(sid);
+      setSessions((prev) => prev.filter((s) => s.sessionId !== sid));
+      if (detail?.session.sessionId === sid) setDetail(null);
+      setUsage(await client.usage());
+    } catch (e) {
+      fail(e);
+    }
+  }
+
+  return (
+    <div className="bg-app min-h-svh">
+      <div className="mx-auto w-full max-w-5xl p-4 text-sm">
+        <header className="mb-3 flex items-center justify-between gap-3">
+          <div className="text-lg font-semibold">Admin</div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="ghost"
+              aria-label="toggle theme"
+              onClick={() => setTheme(theme === "dark" ? "light" : "dark")}
+              title="Toggle theme"
+            >
+              {theme === "dark" ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
+            </Button>
+            {token && (
+              <>
+                <Button variant="ghost" onClick={() => void load()} disabled={loading} title="Refresh">
+                  <RefreshCw className="h-5 w-5" />
+                </Button>
+                <Button variant="outline" onClick={signOut}>
+                  Sign out
+                </Button>
+              </>
+            )}
+          </div>
+        </header>
+
+        {error && <p className="mb-3 text-red-600 dark:text-red-400">{error}</p>}
+
+        {!token ? (
+          <section className="card-surface flex max-w-md flex-col gap-3 p-4">
+            <label className="flex flex-col gap-1">
+              Admin token
+              <input
+                className={field}
+                type="password"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && signIn()}
+              />
+            </label>
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={signIn} disabled={!draft.trim()}>
+                Sign in
+              </Button>
+            </div>
+          </section>
+        ) : (
+          <div className="flex flex-col gap-3">
+            {usage && (
+              <section className="card-surface p-3">
+                <div className="mb-2 font-semibold">
+                  Usage across {usage.sessions} session{usage.sessions === 1 ? "" : "s"}
+                  {usage.truncated && " (first 500 only)"}
+                </div>
+                <div className="mb-2 text-neutral-600 dark:text-neutral-300">
+                  {usage.messages} messages · {usage.tokens.prompt + usage.tokens.completion} tokens ·{" "}
+                  {usage.storage.files} files ({bytes(usage.storage.bytes)})
+                </div>
+                <ul className="flex flex-wrap gap-3">
+                  {Object.entries(usage.tools).map(([tool, u]) => (
+                    <li key={tool} className="rounded-xl border border-neutral-300 px-3 py-1 dark:border-neutral-700">
+                      {tool}: {u.runs} run{u.runs === 1 ? "" : "s"}
+                      {u.errors > 0 && <span className="text-red-600 dark:text-red-400"> · {u.errors} failed</span>}
+                    </li>
+                  ))}
+                  {Object.keys(usage.tools).length === 0 && <li className="text-neutral-500">No tool runs yet.</li>}
+                </ul>
+              </section>
+            )}
+
+            <section className="card-surface overflow-x-auto p-3">
+              <div className="mb-2 font-semibold">Sessions</div>
+              <table className="w-full text-left">
+                <thead className="text-xs text-neutral-500 dark:text-neutral-400">
+                  <tr>
+                    <th className="py-1 pr-3">Session</th>
+                    <th className="py-1 pr-3">Model</th>
+                    <th className="py-1 pr-3">Messages</th>
+                    <th className="py-1 pr-3">Files</th>
+                    <th className="py-1 pr-3">Last activity</th>
+                    <th className="py-1 pr-3">Expires</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((s) => (
+                    <tr key={s.sessionId} className="border-t border-neutral-200 dark:border-neutral-800">
+                      <td className="py-1 pr-3">
+                        <button className="font-mono underline" onClick={() => void inspect(s.sessionId)}>
+                          {s.sessionId.slice(0, 8)}
+                        </button>
+                      </td>
+                      <td className="max-w-48 truncate py-1 pr-3">{s.model}</td>
+                      <td className="py-1 pr-3 tabular-nums">{s.messages}</td>
+                      <td className="py-1 pr-3 tabular-nums">
+                        {s.storage.files} ({bytes(s.storage.bytes)})
+                      </td>
+                      <td className="py-1 pr-3">{when(s.lastActivity)}</td>
+                      <td className="py-1 pr-3">{s.expiredAt ? `expired ${when(s.expiredAt)}` : when(s.expiresAt)}</td>
+                      <td className="py-1 text-right">
+                        <Button variant="ghost" size="sm" title="Delete session" onClick={() => void remove(s.sessionId)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {sessions.length === 0 && !loading && <p className="text-neutral-500">No sessions.</p>}
+              {cursor && (
+                <div className="mt-2 flex justify-center">
+                  <Button variant="outline" onClick={() => void more()}>
+                    Load more
+                  </Button>
+                </div>
+              )}
+            </section>
+
+            {detail && (
+              <section className="card-surface p-3">
+                <div className="mb-2 flex items-center justify-between">
+                  <div className="font-semibold">
+                    Session <span className="font-mono">{detail.session.sessionId}</span>
+                  </div>
+                  <Button variant="ghost" size="sm" aria-label="close transcript" onClick={() => setDetail(null)}>
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="mb-3 text-neutral-600 dark:text-neutral-300">
+                  {detail.session.model} · created {when(detail.session.createdAt)} ·{" "}
+                  {detail.session.tokens.prompt + detail.session.tokens.completion} tokens
+                  {!detail.marker && " · KV marker gone"}
+                </div>
+
+                {detail.files.length > 0 && (
+                  <ul className="mb-3 flex flex-col gap-1">
+                    {detail.files.map((f) => (
+                      <li key={f.key} className="flex items-center gap-2">
+                        <button className="truncate underline" onClick={() => void client?.openFile(f.url).catch(fail)}>
+                          {f.name}
+                        </button>
+                        <span className="text-xs text-neutral-500 dark:text-neutral-400">
+                          {f.tool ?? "file"} · {bytes(f.size)} · {when(f.createdAt)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+
+                <ol className="flex flex-col gap-2">
+                  {detail.messages.map((r) => (
+                    <li key={r.id} className={r.id === detail.leafId ? "font-medium" : undefined}>
+                      <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                        #{r.id}
+                        {r.parentId !== null && ` ← #${r.parentId}`} · {r.role} · {when(r.ts)}
+                        {r.model && ` · ${r.model}`}
+                      </div>
+                      <div className="whitespace-pre-wrap break-words">{rowText(r)}</div>
+                    </li>
+                  ))}
+                  {detail.messages.length === 0 && <li className="text-neutral-500">No stored messages.</li>}
+                </ol>
+              </section>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,20 +1,28 @@
 import { useEffect, useRef, useState } from "react";
 import { Button } from "../ui/button";
-import { SendHorizontal } from "lucide-react";
-import type { ModelId } from "./ModelPicker";
+import { SendHorizontal, SlidersHorizontal, Square } from "lucide-react";
+import { modelLabel, type ModelId, type ModelInfo } from "../../agent/models";
 
 type Props = {
   onSend: (text: string) => void;
+  onStop?: () => void;
   disabled?: boolean;
+  pending?: boolean; // a turn is running → show Stop instead of Send
   model: ModelId;
+  models: ModelInfo[]; // from /api/models
   onModelChange: (m: ModelId) => void;
+  onOpenSettings?: () => void;
 };
 
 export function ChatInput({
   onSend,
+  onStop,
   disabled,
+  pending,
   model,
+  models,
   onModelChange,
+  onOpenSettings,
 }: Props) {
   const [text, setText] = useState("");
   const taRef = useRef<HTMLTextAreaElement | null>(null);
@@ -44,13 +52,28 @@ export function ChatInput({
     Model
     <select
       value={model}
-      onChange={(e) => onModelChange(e.target.value as ModelId)}
+      onChange={(e) => onModelChange(e.target.value)}
       className="bg-transparent outline-none"
     >
-      <option value="@cf/meta/llama-4-scout-17b-16e-instruct">Llama 4 Scout 17B</option>
-      <option value="@hf/nousresearch/hermes-2-pro-mistral-7b">Hermes 2 Pro 7B</option>
+      {models.map((m) => (
+        <option key={m.id} value={m.id}>{modelLabel(m)}</option>
+      ))}
+      {!models.some((m) => m.id === model) && <option value={model}>{model}</option>}
     </select>
   </label>
+  {onOpenSettings && (
+    <Button
+      type="button"
+      size="md"
+      variant="ghost"
+      aria-label="session settings"
+      onClick={onOpenSettings}
+      className="shrink-0 px-3"
+      title="Session settings"
+    >
+      <SlidersHorizontal className="h-4 w-4" />
+    </Button>
+  )}
 
   <textarea
     ref={taRef}
@@ -66,16 +89,30 @@ export function ChatInput({
     }}
   />
 
-  <Button
-    type="submit"
-    size="md"
-    aria-label="send"
-    disabled={disabled || !text.trim()}
-    className="shrink-0"
-    title="Send"
-  >
-    <SendHorizontal className="h-4 w-4" />
-  </Button>
+  {pending && onStop ? (
+    <Button
+      type="button"
+      size="md"
+      variant="outline"
+      aria-label="stop"
+      onClick={onStop}
+      className="shrink-0"
+      title="Stop"
+    >
+      <Square className="h-4 w-4" />
+    </Button>
+  ) : (
+    <Button
+      type="submit"
+      size="md"
+      aria-label="send"
+      disabled={disabled || !text.trim()}
+      className="shrink-0"
+      title="Send"
+    >
+      <SendHorizontal className="h-4 w-4" />
+    </Button>
+  )}
 </form>
 
   );
@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { ChevronLeft, ChevronRight, Pencil, RefreshCw } from "lucide-react";
+import { Button } from "../ui/button";
+import { cn } from "../../lib/utils";
+
+type Props = {
+  role: "user" | "assistant";
+  id: number;
+  siblings?: number[]; // ids sharing this message's parent, oldest first
+  disabled?: boolean;
+  onBranch: (id: number) => void;
+  onRegenerate?: (id: number) => void;
+  onEdit?: (id: number) => void;
+  note?: string; // e.g. "via Hermes 2 Pro 7B" when a fallback model answered
+};
+
+/** Branch switcher (‹ 2/3 ›) + regenerate/edit under a message */
+export function MessageActions({ role, id, siblings, disabled, onBranch, onRegenerate, onEdit, note }: Props) {
+  const sibs = siblings?.length ? siblings : [id];
+  const at = Math.max(0, sibs.indexOf(id));
+  if (sibs.length < 2 && !onRegenerate && !onEdit && !note) return null;
+
+  return (
+    <div
+      className={cn(
+        "mt-1 flex items-center gap-1 text-xs text-neutral-500 dark:text-neutral-400",
+        role === "user" ? "justify-end" : "justify-start"
+      )}
+    >
+      {sibs.length > 1 && (
+        <>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1"
+            aria-label="previous version"
+            disabled={disabled || at === 0}
+            onClick={() => onBranch(sibs[at - 1])}
+          >
+            <ChevronLeft className="h-3 w-3" />
+          </Button>
+          <span className="tabular-nums">
+            {at + 1}/{sibs.length}
+          </span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-1"
+            aria-label="next version"
+            disabled={disabled || at === sibs.length - 1}
+            onClick={() => onBranch(sibs[at + 1])}
+          >
+            <ChevronRight className="h-3 w-3" />
+          </Button>
+        </>
+      )}
+      {onEdit && (
+        <Button variant="ghost" size="sm" className="h-6 px-2" title="Edit" disabled={disabled} onClick={() => onEdit(id)}>
+          <Pencil className="h-3 w-3" />
+        </Button>
+      )}
+      {onRegenerate && (
+        <Button variant="ghost" size="sm" className="h-6 px-2" title="Regenerate" disabled={disabled} onClick={() => onRegenerate(id)}>
+          <RefreshCw className="h-3 w-3" />
+        </Button>
+      )}
+      {note && <span className="px-1 italic">{note}</span>}
+    </div>
+  );
+}
+
+/** Inline editor that replaces a user bubble; saving starts a new branch */
+export function EditBubble({
+  initial,
+  onSave,
+  onCancel,
+}: { initial: string; onSave: (text: string) => void; onCancel: () => void }) {
+  const [text, setText] = useState(initial);
+
+  return (
+    <form
+      onSubmit={(e) => { e.preventDefault(); if (text.trim()) onSave(text.trim()); }}
+      className="flex w-full flex-col items-end gap-2"
+    >
+      <textarea
+        autoFocus
+        className="bubble bubble-user w-full resize-none outline-none"
+        rows={Math.min(6, Math.max(2, text.split("\n").length))}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={onCancel}>
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={!text.trim()}>
+          Save &amp; send
+        </Button>
+      </div>
+    </form>
+  );
+}
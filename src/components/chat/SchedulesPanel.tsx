@@ -0,0 +1,46 @@
+import { CalendarClock, Repeat, X } from "lucide-react";
+import { Button } from "../ui/button";
+import type { ScheduledTask } from "../../agent/wsClient";
+
+const TOOL_LABELS: Record<string, string> = {
+  getWeather: "Weather",
+  captureScreenshot: "Screenshot",
+  convertToPdf: "PDF",
+  reminder: "Reminder",
+};
+
+/** Pending scheduled tasks for this session, soonest first, each cancellable */
+export function SchedulesPanel({ tasks, onCancel }: { tasks: ScheduledTask[]; onCancel: (id: string) => void }) {
+  return (
+    <div className="card-surface mb-3 p-3 text-sm">
+      <div className="mb-2 font-semibold">Scheduled tasks</div>
+      {tasks.length === 0 ? (
+        <p className="text-neutral-600 dark:text-neutral-300">
+          Nothing scheduled. Try “Every morning at 7, send me the Montreal forecast”.
+        </p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {tasks.map((t) => (
+            <li key={t.id} className="flex items-center gap-3">
+              {t.type === "cron" ? (
+                <Repeat className="h-4 w-4 shrink-0 text-neutral-500" />
+              ) : (
+                <CalendarClock className="h-4 w-4 shrink-0 text-neutral-500" />
+              )}
+              <div className="min-w-0 flex-1">
+                <div className="truncate">{t.description}</div>
+                <div className="text-xs text-neutral-500 dark:text-neutral-400">
+                  {TOOL_LABELS[t.tool] ?? t.tool} · next {new Date(t.time).toLocaleString()}
+                  {t.cron ? ` · cron ${t.cron} (UTC)` : ""}
+                </div>
+              </div>
+              <Button variant="ghost" size="sm" className="h-7 px-2" title="Cancel task" onClick={() => onCancel(t.id)}>
+                <X className="h-4 w-4" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
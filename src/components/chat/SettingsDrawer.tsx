@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { X } from "lucide-react";
+import { Button } from "../ui/button";
+import type { McpServerConfig, McpServerView, SessionSettings } from "../../agent/wsClient";
+
+type Props = {
+  settings: SessionSettings;
+  error?: string | null; // last rejection from the server
+  onSave: (s: SessionSettings) => void;
+  mcpServers: McpServerView[];
+  mcpError?: string | null;
+  onAddMcp: (server: McpServerConfig) => void;
+  onRemoveMcp: (id: string) => void;
+  onSetMcpAllow: (id: string, allow: string[] | null) => void; // null = every tool
+  onClose: () => void;
+};
+
+type Form = { persona: string; language: string; temperature: string; maxTokens: string; systemPrompt: string };
+
+function toForm(s: SessionSettings): Form {
+  return {
+    persona: s.persona ?? "",
+    language: s.language ?? "",
+    temperature: s.temperature === undefined ? "" : String(s.temperature),
+    maxTokens: s.maxTokens === undefined ? "" : String(s.maxTokens),
+    systemPrompt: s.systemPrompt ?? "",
+  };
+}
+
+// Empty fields mean "deployment default"; the server validates ranges
+function fromForm(f: Form): SessionSettings {
+  return {
+    persona: f.persona.trim() || undefined,
+    language: f.language.trim() || undefined,
+    temperature: f.temperature.trim() ? Number(f.temperature) : undefined,
+    maxTokens: f.maxTokens.trim() ? Number(f.maxTokens) : undefined,
+    systemPrompt: f.systemPrompt.trim() || undefined,
+  };
+}
+
+type McpForm = { name: string; url: string; allow: string };
+
+const field = "w-full rounded-xl border border-neutral-300 bg-transparent px-3 py-2 text-sm outline-none dark:border-neutral-700";
+
+/** Per-session settings (persona, language, sampling, system prompt addendum) */
+export function SettingsDrawer({ settings, error, onSave, mcpServers, mcpError, onAddMcp, onRemoveMcp, onSetMcpAllow, onClose }: Props) {
+  const [form, setForm] = useState<Form>(() => toForm(settings));
+  const set = (k: keyof Form) => (e: { target: { value: string } }) => setForm((f) => ({ ...f, [k]: e.target.value }));
+  const [mcp, setMcp] = useState<McpForm>({ name: "", url: "", allow: "" });
+  const setM = (k: keyof McpForm) => (e: { target: { value: string } }) => setMcp((f) => ({ ...f, [k]: e.target.value }));
+
+  // Allowed tools: comma-separated; empty = every tool the server lists
+  function addMcp() {
+    const allow = mcp.allow.split(",").map((t) => t.trim()).filter(Boolean);
+    onAddMcp({ name: mcp.name.trim(), url: mcp.url.trim(), ...(allow.length ? { allow } : {}) });
+    setMcp({ name: "", url: "", allow: "" });
+  }
+
+  // Narrow a server to the checked tools; checking every listed tool allows all again
+  function toggleTool(s: McpServerView, tool: string) {
+    const allowed = s.allow ?? s.tools;
+    const next = allowed.includes(tool) ? allowed.filter((t) => t !== tool) : [...allowed, tool];
+    onSetMcpAllow(s.id, s.tools.every((t) => next.includes(t)) ? null : next);
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/30" onClick={onClose}>
+      <aside
+        className="card-surface flex h-full w-full max-w-sm flex-col gap-3 overflow-y-auto p-4 text-sm"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <div className="text-base font-semibold">Session settings</div>
+          <Button variant="ghost" size="sm" aria-label="close settings" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          Persona
+          <input className={field} placeholder="e.g. a friendly travel guide" value={form.persona} onChange={set("persona")} />
+        </label>
+        <label className="flex flex-col gap-1">
+          Reply language
+          <input className={field} placeholder="same as the user" value={form.language} onChange={set("language")} />
+        </label>
+        <div className="flex gap-3">
+          <label className="flex flex-1 flex-col gap-1">
+            Temperature
+            <input
+              className={field}
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              placeholder="model default"
+              value={form.temperature}
+              onChange={set("temperature")}
+            />
+          </label>
+          <label className="flex flex-1 flex-col gap-1">
+            Max tokens
+            <input
+              className={field}
+              type="number"
+              min={16}
+              max={4096}
+              step={1}
+              placeholder="model default"
+              value={form.maxTokens}
+              onChange={set("maxTokens")}
+            />
+          </label>
+        </div>
+        <label className="flex flex-col gap-1">
+          Extra system instructions
+          <textarea
+            className={`${field} resize-y`}
+            rows={6}
+            maxLength={2000}
+            placeholder="Appended to the built-in system prompt"
+            value={form.systemPrompt}
+            onChange={set("systemPrompt")}
+          />
+        </label>
+
+        {error && <p className="text-red-600 dark:text-red-400">{error}</p>}
+
+        <div className="flex justify-between gap-2">
+          <Button variant="ghost" onClick={() => { setForm(toForm({})); onSave({}); }}>
+            Reset to defaults
+          </Button>
+          <Button variant="outline" onClick={() => onSave(fromForm(form))}>
+            Save
+          </Button>
+        </div>
+
+        {/* External MCP servers: their tools join the agent's (changes apply immediately) */}
+        <div className="mt-2 border-t border-neutral-200 pt-3 text-base font-semibold dark:border-neutral-800">MCP servers</div>
+        {mcpServers.length === 0 && <p className="text-neutral-500 dark:text-neutral-400">No external servers connected.</p>}
+        <ul className="space-y-2">
+          {mcpServers.map((s) => (
+            <li key={s.id} className="flex items-start justify-between gap-2">
+              <div className="min-w-0">
+                <div className="truncate font-medium">{s.name}</div>
+                <div className="truncate text-xs text-neutral-500 dark:text-neutral-400">
+                  {s.state} · {s.allow ? `${s.allow.length} of ${s.tools.length}` : s.tools.length} tools
+                  {s.source === "deployment" && " · deployment"}
+                </div>
+                {s.state === "authenticating" && s.authUrl && (
+                  <a href={s.authUrl} target="_blank" rel="noreferrer" className="text-xs underline">
+                    Authorize
+                  </a>
+                )}
+                {s.tools.length > 0 && (
+                  <div className="mt-1 flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                    {s.tools.map((t) => (
+                      <label key={t} className="inline-flex items-center gap-1">
+                        <input type="checkbox" checked={!s.allow || s.allow.includes(t)} onChange={() => toggleTool(s, t)} />
+                        {t}
+                      </label>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {s.source === "session" && (
+                <Button variant="ghost" size="sm" aria-label={`remove ${s.name}`} onClick={() => onRemoveMcp(s.id)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+        <div className="flex gap-3">
+          <input className={field} placeholder="Name" value={mcp.name} onChange={setM("name")} />
+          <input className={field} placeholder="https://…/mcp" value={mcp.url} onChange={setM("url")} />
+        </div>
+        <input className={field} placeholder="Allowed tools (comma-separated, optional)" value={mcp.allow} onChange={setM("allow")} />
+        {mcpError && <p className="text-red-600 dark:text-red-400">{mcpError}</p>}
+        <div className="flex justify-end">
+          <Button variant="outline" disabled={!mcp.name.trim() || !mcp.url.trim()} onClick={addMcp}>
+            Add server
+          </Button>
+        </div>
+      </aside>
+    </div>
+  );
+}
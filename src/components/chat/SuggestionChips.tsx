@@ -6,7 +6,8 @@ export function SuggestionChips({ onPick }: { onPick: (text: string) => void })
         "What tools can you use?",
         "Take a screenshot of example.com",
         "What is the weather in Toronto?",
-        "Convert developers.cloudflare.com to PDF"
+        "Convert developers.cloudflare.com to PDF",
+        "Every morning at 7, send me the Montreal forecast"
     ];
     return (
         <div className="flex flex-wrap gap-2">
@@ -1,3 +1,4 @@
+import { Fragment } from "react";
 import { Card, CardDescription, CardTitle } from "../ui/card";
 import { Check, Loader2, X } from "lucide-react";
 
@@ -100,6 +101,22 @@ export function ToolCard({ ui }: { ui: ToolUI }) {
             ) : null}
           </div>
         )}
+        {/* Step timings (browser tools), for finished and failed runs */}
+        {(isDone || isError) && ui.metrics?.length ? (
+          <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs text-neutral-600 dark:text-neutral-300">
+            {ui.metrics.map((m) => (
+              <Fragment key={m.label}>
+                <dt className="text-neutral-500 dark:text-neutral-400">{m.label}</dt>
+                <dd className="tabular-nums">{m.value}</dd>
+              </Fragment>
+            ))}
+          </dl>
+        ) : null}
+        {isDone && ui.media?.type === "text" && typeof ui.data === "string" && ui.data && (
+          <pre className="mt-3 max-h-48 overflow-auto whitespace-pre-wrap rounded-xl border border-neutral-300 p-2 text-xs dark:border-neutral-700">
+            {ui.data}
+          </pre>
+        )}
       </Card>
     );
   }
@@ -2,13 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App'
+import { AdminPage } from './components/admin/AdminPage'
 import { ThemeProvider } from './theme/themeProvider'
 
 
 createRoot(document.getElementById('root')!).render(
 <StrictMode>
 <ThemeProvider>
-<App />
+{location.pathname === '/admin' ? <AdminPage /> : <App />}
 </ThemeProvider>
 </StrictMode>,
 )
\ No newline at end of file
@@ -5,8 +5,18 @@ import type AIAgent from "./worker/agent";
 
 /** Chat message shape used with Workers AI */
 export type ChatMessage = {
-  role: "system" | "user" | "assistant";
+  role: "system" | "user" | "assistant" | "tool";
   content: string;
+  name?: string;            // role "tool": function name
+  tool_call_id?: string;    // role "tool": id of the call it answers
+  tool_calls?: AIToolCall[]; // role "assistant": calls the model made
+};
+
+/** Tool call as returned by (and echoed back to) Workers AI */
+export type AIToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
 };
 
 /** Workers AI binding */
@@ -52,9 +62,17 @@ export interface Env {
   AI: AIBinding;
   agent_sessions: KVNamespace;          // KV binding
   AI_AGENT: AgentNamespace<AIAgent>;  // Agents binding
+  MCP_TOOLS: DurableObjectNamespace;    // MCP server (worker/mcp.ts)
   ASSETS: { fetch(request: globalThis.Request): Promise<globalThis.Response> };   // Assets binding
   BROWSER: import("@cloudflare/puppeteer").BrowserWorker;
   agent_browser_uploads: R2Bucket;
+  MAX_TOOL_STEPS?: string;              // var: tool calls allowed per turn (default 4)
+  SESSION_TTL_HOURS?: string;           // var: idle sessions (messages + R2 files) are wiped after this (default 24)
+  FILE_URL_TTL_MINUTES?: string;        // var: lifetime of signed artifact links (default 15)
+  FILES_QUOTA_MB?: string;              // var: R2 artifact storage per session (default 50)
+  MCP_SERVERS?: string;                 // var: JSON [{name, url, allow?, headers?}] of MCP servers every session connects to
+  SESSION_SECRET?: string;              // secret: HMAC key for session tokens (required; sessions are refused without it)
+  ADMIN_TOKEN?: string;                 // secret: Bearer token for /api/admin (the admin API answers 503 without it)
 }
 
 // Begin runtime types
@@ -0,0 +1,227 @@
+/// <reference lib="webworker" />
+import type { Env } from "../worker-configuration";
+import { purgeSessionFiles } from "./session";
+import { listArtifacts, revokeFileUrls, serveFile, sessionStorage } from "./files";
+
+/**
+ * Operator API at /api/admin (Bearer ADMIN_TOKEN), used by the SPA's /admin page:
+ *   GET    /api/admin/sessions?cursor&limit      → sessions from the KV `sess:` markers, with stats
+ *   GET    /api/admin/sessions/:sid              → stats, every stored row (all branches) and artifacts
+ *   GET    /api/admin/sessions/:sid/files/:name  → an artifact (no signed link needed)
+ *   DELETE /api/admin/sessions/:sid              → wipe the session, its R2 files and its marker
+ *   GET    /api/admin/usage                      → tool runs, messages, tokens and storage across sessions
+ *
+ * Stats come from each session's Durable Object, so they cover what it still
+ * holds: reset and expiry clear the rows they are counted from.
+ */
+
+/** Sessions scanned by /api/admin/usage (KV order) */
+const USAGE_SCAN_LIMIT = 500;
+
+/** Durable Object calls in flight at once while collecting stats */
+const FAN_OUT = 10;
+
+/** Orphaned sessions cleaned up per sweep run (the rest wait for the next run) */
+const SWEEP_LIMIT = 100;
+
+/** Tool runs by wire tag (persisted tool rows) */
+export type ToolUsage = Record<string, { runs: number; errors: number }>;
+
+/** What a session's agent reports about itself (GET /admin/summary) */
+export type AgentSummary = {
+  sessionId: string;
+  model: string;
+  createdAt: number;
+  expiresAt: number;
+  expiredAt: number | null;
+  lastActivity: number | null; // newest row
+  messages: number;            // stored rows, every branch
+  tools: ToolUsage;
+  tokens: { prompt: number; completion: number };
+};
+
+/** One row of GET /api/admin/sessions */
+export type SessionSummary = AgentSummary & {
+  markerExpiresAt: number | null; // KV `sess:` marker TTL (epoch ms)
+  storage: { files: number; bytes: number };
+};
+
+type AgentStub = { fetch(req: Request): Promise<Response> };
+type StubFor = (sid: string) => Promise<AgentStub>;
+
+/** Constant-time compare so the token can't be guessed byte by byte */
+function sameToken(a: string, b: string): boolean {
+  const enc = new TextEncoder();
+  const x = enc.encode(a);
+  const y = enc.encode(b);
+  let diff = x.length ^ y.length;
+  for (let i = 0; i < Math.max(x.length, y.length); i++) diff |= (x[i] ?? 0) ^ (y[i] ?? 0);
+  return diff === 0;
+}
+
+/** Gate for /api/admin: `Authorization: Bearer <ADMIN_TOKEN>`; error response, or undefined to continue */
+export function authorizeAdmin(request: Request, env: Env): Response | undefined {
+  if (!env.ADMIN_TOKEN) return json({ error: "Admin API is not configured (set the ADMIN_TOKEN secret)" }, 503);
+  const auth = request.headers.get("Authorization");
+  if (!auth?.startsWith("Bearer ") || !sameToken(auth.slice(7).trim(), env.ADMIN_TOKEN)) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+  return undefined;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", "cache-control": "no-store" } });
+}
+
+/** Internal request to the session's agent (its onRequest answers /admin/...) */
+async function askAgent<T>(stub: StubFor, sid: string, path: string, method = "GET"): Promise<T> {
+  const res = await (await stub(sid)).fetch(new Request(`https://agent/admin/${path}`, { method }));
+  if (!res.ok) throw new Error(`agent answered ${res.status}`);
+  return (await res.json()) as T;
+}
+
+/** Run `fn` over `items`, FAN_OUT at a time */
+async function mapLimited<T, R>(items: T[], fn: (item: T) => Promise<R>): Promise<R[]> {
+  const out: R[] = [];
+  for (let i = 0; i < items.length; i += FAN_OUT) out.push(...(await Promise.all(items.slice(i, i + FAN_OUT).map(fn))));
+  return out;
+}
+
+async function summarize(env: Env, stub: StubFor, sid: string, markerExpiresAt: number | null): Promise<SessionSummary | null> {
+  try {
+    const [agent, storage] = await Promise.all([askAgent<AgentSummary>(stub, sid, "summary"), sessionStorage(env, sid)]);
+    return { ...agent, markerExpiresAt, storage };
+  } catch (e) {
+    console.log("[admin] summary failed", { sid, error: e instanceof Error ? e.message : String(e) });
+    return null;
+  }
+}
+
+/** Requests under /api/admin (already authorized) */
+export async function adminApi(request: Request, env: Env, stub: StubFor): Promise<Response> {
+  const url = new URL(request.url);
+  const [, , , section, sid, sub, ...name] = url.pathname.split("/"); // "" api admin <section> <sid> <sub> <name…>
+  const m = request.method;
+  if (sid && !/^[a-z0-9-]{8,64}$/.test(sid)) return json({ error: "Bad session id" }, 400); // same shape as token sids
+
+  if (section === "sessions" && !sid && m === "GET") {
+    const limit = Math.min(100, Math.max(1, Number(url.searchParams.get("limit")) || 25));
+    const page = await env.agent_sessions.list({ prefix: "sess:", limit, cursor: url.searchParams.get("cursor") || undefined });
+    const sessions = await mapLimited(page.keys, (k) =>
+      summarize(env, stub, k.name.slice("sess:".length), k.expiration ? k.expiration * 1000 : null)
+    );
+    return json({
+      sessions: sessions.filter((s): s is SessionSummary => !!s),
+      cursor: page.list_complete ? null : page.cursor,
+    });
+  }
+
+  if (section === "sessions" && sid && !sub && m === "GET") {
+    const [transcript, files] = await Promise.all([
+      askAgent<{ summary: AgentSummary; leafId: number | null; messages: unknown[] }>(stub, sid, "transcript"),
+      listArtifacts(env, sid),
+    ]);
+    return json({
+      session: { ...transcript.summary, storage: { files: files.files.length, bytes: files.usedBytes } },
+      marker: (await env.agent_sessions.get(`sess:${sid}`)) !== null, // false once the KV marker lapsed
+      leafId: transcript.leafId,
+      messages: transcript.messages,
+      // Operators fetch artifacts through the admin route, not the session's signed links
+      files: files.files.map((f) => ({ ...f, url: `/api/admin/sessions/${sid}/files/${encodeURIComponent(f.name)}`, urlExpiresAt: null })),
+    });
+  }
+
+  if (section === "sessions" && sid && sub === "files" && name.length) {
+    let file: string;
+    try {
+      file = decodeURIComponent(name.join("/"));
+    } catch {
+      return json({ error: "Bad file name" }, 400); // malformed % escape
+    }
+    return serveFile(request, env, `files/${sid}/${file}`, file);
+  }
+
+  if (section === "sessions" && sid && !sub && m === "DELETE") {
+    await askAgent(stub, sid, "session", "DELETE");
+    const files = await purgeSessionFiles(env, sid);
+    await revokeFileUrls(env, sid);
+    await env.agent_sessions.delete(`sess:${sid}`);
+    console.log("[admin] session deleted", { sid, files });
+    return json({ deleted: true, files });
+  }
+
+  if (section === "usage" && !sid && m === "GET") {
+    const keys: Array<{ name: string; expiration?: number }> = [];
+    let cursor: string | undefined;
+    do {
+      const page = await env.agent_sessions.list({ prefix: "sess:", cursor });
+      keys.push(...page.keys);
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor && keys.length < USAGE_SCAN_LIMIT);
+
+    const scanned = keys.slice(0, USAGE_SCAN_LIMIT);
+    const sessions = (await mapLimited(scanned, (k) => summarize(env, stub, k.name.slice("sess:".length), null))).filter(
+      (s): s is SessionSummary => !!s
+    );
+    const tools: ToolUsage = {};
+    for (const s of sessions) {
+      for (const [tool, u] of Object.entries(s.tools)) {
+        const t = (tools[tool] ??= { runs: 0, errors: 0 });
+        t.runs += u.runs;
+        t.errors += u.errors;
+      }
+    }
+    const sum = (f: (s: SessionSummary) => number) => sessions.reduce((n, s) => n + f(s), 0);
+    return json({
+      sessions: sessions.length,
+      truncated: keys.length > USAGE_SCAN_LIMIT || !!cursor,
+      messages: sum((s) => s.messages),
+      tokens: { prompt: sum((s) => s.tokens.prompt), completion: sum((s) => s.tokens.completion) },
+      storage: { files: sum((s) => s.storage.files), bytes: sum((s) => s.storage.bytes) },
+      tools,
+    });
+  }
+
+  return json({ error: "Not found" }, 404);
+}
+
+/**
+ * Cron job (wrangler `triggers.crons`): find R2 `files/<sid>/` prefixes whose
+ * session has no KV `sess:` marker, i.e. no client can be issued a token for it
+ * again. That covers sessions from before signed ids (client-chosen sids; they
+ * store expiresAt, but the alarm enforcing it may never have been scheduled)
+ * and sessions whose token lapsed while the agent kept its rows. Each one's
+ * agent is purged (skipped while clients are still connected or not yet past
+ * its own expiry) and its files deleted.
+ */
+export async function sweepOrphanSessions(env: Env, stub: StubFor): Promise<{ checked: number; swept: number; files: number }> {
+  const orphans: string[] = [];
+  let checked = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await env.agent_browser_uploads.list({ prefix: "files/", delimiter: "/", cursor });
+    for (const prefix of page.delimitedPrefixes) {
+      const sid = prefix.slice("files/".length, -1);
+      checked++;
+      if ((await env.agent_sessions.get(`sess:${sid}`)) === null) orphans.push(sid);
+      if (orphans.length >= SWEEP_LIMIT) break;
+    }
+    cursor = page.truncated && orphans.length < SWEEP_LIMIT ? page.cursor : undefined;
+  } while (cursor);
+
+  let swept = 0;
+  let files = 0;
+  await mapLimited(orphans, async (sid) => {
+    try {
+      const r = await askAgent<{ swept: boolean }>(stub, sid, "sweep", "POST");
+      if (!r.swept) return;
+      const removed = await purgeSessionFiles(env, sid);
+      files += removed;
+      swept++;
+    } catch (e) {
+      console.log("[admin] sweep failed", { sid, error: e instanceof Error ? e.message : String(e) });
+    }
+  });
+  console.log("[admin] orphan sweep", { checked, orphans: orphans.length, swept, files });
+  return { checked, swept, files };
+}
@@ -1,22 +1,46 @@
 /// <reference lib="webworker" />
-import { Agent, type Connection, type ConnectionContext } from "agents";
-import type { Env, ChatMessage } from "../worker-configuration";
+import { Agent, type AgentContext, type Connection, type ConnectionContext, type Schedule } from "agents";
+import type { AIToolCall, ChatMessage, Env } from "../worker-configuration";
+import { estimateTokens, historyBudget, memoryMessage, summarizeMemory, toModelMessage } from "./memory";
+import { readAIOutput, runWithFallback, type AIUsage } from "./ai";
+import { migrate } from "./migrations";
+import { composeSystemPrompt, parseSettings, type SessionSettings } from "./settings";
+import { DEFAULT_MODEL, getModel, MODELS, modelOrDefault, type ModelInfo } from "./models";
+import { DEFAULT_TTL_HOURS, purgeSessionFiles, sessionTtlSeconds } from "./session";
+import { resignToolRow, revokeFileUrls } from "./files";
+import type { AgentSummary, ToolUsage } from "./admin";
 import {
-  getWeather,
-  getWeatherToolSchema,
-  type WeatherArgs,
-  type WeatherResult,
-} from "./tools/getWeather";
+  DELIVERY_LOG_DAYS,
+  parseWebhook,
+  retryDelaySeconds,
+  sendWebhook,
+  webhookSecret,
+  withFreshLink,
+  type DeliveryStatus,
+  type Webhook,
+  type WebhookDelivery,
+  type WebhookEvent,
+  type WebhookPayload,
+} from "./webhooks";
+import { completionBody, completionChunk, completionErrorChunk, completionId, openaiError, parseCompletionRequest, type CompletionRequest } from "./openai";
 import {
-  captureScreenshot,
-  type ScreenshotArgs,
-  type ScreenshotResult,
-} from "./tools/captureScreenshot";
-import {
-  convertToPdf,
-  type PdfArgs,
-  type PdfResult,
-} from "./tools/convertToPdf";
+  deploymentMcpServers,
+  getToolByFunction,
+  parseSessionMcpServer,
+  remoteTool,
+  toolSchemas,
+  type AgentTool,
+  type CaptureMetrics,
+  type McpServerConfig,
+  type McpServerView,
+  type RemoteToolDef,
+  type TaskInfo,
+  type TaskScheduler,
+  type TaskSpec,
+  type ToolContext,
+  type ToolEvent,
+  type ToolResult,
+} from "./tools";
 
 // ---------------- System behavior (one source of truth) ---------------------
 const SYSTEM_BEHAVIOR = `
@@ -37,6 +61,11 @@ You are an AI agent that can optionally call tools. Your available tools are:
    - Use ONLY when the user explicitly asks to export/convert a page to PDF and provides a concrete URL or domain.
    - Do not invent URLs or parameters. If URL is missing, ask once for it.
 
+4) scheduleTask(description, tool, args?, cron? | at? | delaySeconds?)
+   - Schedules one of the tools above (or a plain reminder) to run later, once or on a recurring cron (UTC).
+   - Use ONLY when the user explicitly asks for something later or on a repeat ("every morning", "tomorrow at 9", "in 10 minutes").
+   - Fill args exactly as for a direct call. If the timing or a required input is missing, ask once.
+
 General rules:
 - NEVER call tools when the user is asking ABOUT your capabilities (e.g., "What tools can you use?"). In that case, answer with a concise list/descriptions of the tools above and DO NOT call any tool.
 - Do not fabricate tools, APIs, parameters, locations, or URLs. If required inputs are missing, ask one concise follow-up.
@@ -44,589 +73,1422 @@ General rules:
 - Keep answers factual and concise. If a tool was not run, do not imply you ran it.
 `.trim();
 
-/** One chat line stored in SQLite and mirrored in state */
-type Msg = { role: "user" | "assistant" | "tool"; content: string; ts: number };
+/**
+ * One chat line stored in SQLite and mirrored in state. Rows form a tree via
+ * `parentId`; regenerate/edit start a new branch and keep the old one.
+ */
+type Msg = {
+  id: number;
+  parentId: number | null;
+  role: "user" | "assistant" | "tool";
+  content: string;
+  ts: number;
+  model?: string | null; // assistant rows: model that answered
+  siblings?: number[]; // ids sharing this row's parent (incl. itself), oldest first
+};
 
 /** Agent state mirrored to clients on connect */
 type State = {
   model: string;
-  messages: Msg[];
+  fallbacks?: string[];  // tried in order when `model` fails; unset = rest of the registry
+  settings?: SessionSettings; // persona, reply language, system prompt addendum, sampling
+  messages: Msg[];       // active branch, root → leaf
+  leafId: number | null; // tip of the active branch
   createdAt: number;
-  expiresAt: number;
+  expiresAt: number;        // last client activity + SESSION_TTL_HOURS
+  expiredAt?: number | null; // set when the retention job wiped this session; cleared by the next activity
+  mcpServers?: McpServerEntry[]; // external MCP servers this session uses (the SDK keeps the connections)
 };
 
-type WeatherToolEvent =
-  | { type: "tool"; tool: "getWeather"; status: "started"; message?: string }
-  | { type: "tool"; tool: "getWeather"; status: "step";    message?: string }
-  | { type: "tool"; tool: "getWeather"; status: "done";    message?: string; result: WeatherResult }
-  | { type: "tool"; tool: "getWeather"; status: "error";   message: string };
+/** An MCP server connection and its tool allowlist */
+type McpServerEntry = {
+  id: string;        // SDK server id
+  name: string;
+  url: string;
+  allow?: string[];  // tool names the planner may call; unset = all
+  source: "deployment" | "session";
+};
 
-function emitWeatherTool(conn: Connection, evt: WeatherToolEvent): void {
-  conn.send(JSON.stringify(evt));
-}
+/** Provenance stored with an assistant row written by a model call */
+type RowMeta = { model?: string; usage?: AIUsage };
+
+type WebhookRow = { id: string; url: string; events: string; secret: string; origin: string; created_at: number };
+type DeliveryRow = {
+  id: string;
+  webhook_id: string;
+  event: WebhookEvent;
+  payload: string;
+  status: DeliveryStatus;
+  attempts: number;
+  response_status: number | null;
+  error: string | null;
+  created_at: number;
+  next_attempt_at: number | null;
+  delivered_at: number | null;
+};
 
-type ToolEvent = {
-  type: "tool";
-  tool: "getWeather" | "screenshot" | "convertToPdf" | string;
-  status?: "started" | "step" | "done" | "error";
-  message?: string;
-  result?: unknown;
+type MsgRow = { id: number; parent_id: number | null; role: Msg["role"]; content: string; ts: number; model: string | null };
+
+type Inbound = {
+  type?:
+    | "chat" | "reset" | "model" | "settings" | "cancel" | "regenerate" | "edit" | "branch" | "unschedule"
+    | "mcp_add" | "mcp_remove" | "mcp_allow";
+  text?: string;
+  model?: string;
+  settings?: unknown;   // settings: validated by parseSettings
+  fallbacks?: string[]; // model: optional fallback chain (registry ids)
+  id?: number;     // regenerate/edit/branch: target message id
+  taskId?: string; // unschedule: scheduled task id
+  server?: unknown;          // mcp_add: McpServerConfig
+  serverId?: string;         // mcp_remove/mcp_allow
+  allow?: string[] | null;   // mcp_allow: null = every tool
 };
-function emitTool(conn: Connection, evt: ToolEvent): void {
-  conn.send(JSON.stringify(evt));
-}
 
+/** What a scheduled task stores; `runScheduledTask` gets it back when it fires */
+type TaskPayload = Omit<TaskSpec, "when">;
 
-const DAY = 86_400_000;
-const DEFAULT_MODEL = "@cf/meta/llama-4-scout-17b-16e-instruct";
+/** Every outbound frame except `ready` carries the id of the connection that caused it */
+type Outbound = { type: string; origin?: string | null } & Record<string, unknown>;
 
-/** Narrow helpers */
-function isReadableStream(x: unknown): x is ReadableStream<Uint8Array> {
-  return typeof x === "object" && x !== null &&
-    typeof (x as ReadableStream<Uint8Array>).getReader === "function";
+/** Who caused a frame: a WS connection, or an HTTP chat request (id `http:<uuid>`) */
+type Origin = Pick<Connection, "id">;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", "cache-control": "no-store" } });
 }
+
+/** Narrow helpers */
 function isRecord(v: unknown): v is Record<string, unknown> {
   return !!v && typeof v === "object" && !Array.isArray(v);
 }
-/** Type guard: keep only user/assistant rows for model history */
-type UA = { role: "user" | "assistant"; content: string; ts: number };
-function isUserOrAssistant(m: Msg): m is UA {
-  return m.role === "user" || m.role === "assistant";
+/** SDK schedule row → what clients list (SDK times are epoch seconds) */
+function toTaskInfo(s: Schedule<TaskPayload>): TaskInfo {
+  return {
+    id: s.id,
+    description: s.payload.description,
+    tool: s.payload.tool,
+    type: s.type,
+    time: s.time * 1000,
+    cron: s.type === "cron" ? s.cron : undefined,
+  };
 }
 
-/** Types for tool-calling response */
-type AiToolCall = {
-  id?: string;
-  type?: string; // "function"
-  function?: { name?: string; arguments?: unknown };
-};
-type AiPlanResponse = {
-  response?: string;
-  tool_calls?: AiToolCall[];
-};
+function toWebhook(r: WebhookRow): Webhook {
+  return { id: r.id, url: r.url, events: JSON.parse(r.events) as WebhookEvent[], createdAt: r.created_at };
+}
 
-// --- Agentic summary helper (safe, non-streaming) --------------------------
-async function summarizeToolOutcome(
-  env: Env,
-  modelId: string | undefined,
-  userQuery: string,
-  tool: "screenshot" | "convertToPdf",
-  result: unknown
-): Promise<string> {
-  // Deterministic fallback if AI isn't available or call fails
-  const fallback = () => {
-    try {
-      const r: any = result;
-      if (r?.ok) {
-        if (tool === "screenshot") {
-          const dims = r.width && r.height ? ` (${r.width}×${r.height})` : "";
-          const title = r.title || (r.sourceUrl ? new URL(r.sourceUrl).hostname : "page");
-          return `Captured “${title}”${dims}. Use the link above to open or download.`;
-        } else {
-          const title = r.title || (r.sourceUrl ? new URL(r.sourceUrl).hostname : "page");
-          return `Rendered “${title}” to PDF. Use the link above to open or download.`;
-        }
-      } else {
-        const code = r?.code ? ` (${r.code})` : "";
-        return `The ${tool === "screenshot" ? "screenshot" : "PDF"} step failed${code}. You can retry with a longer timeout or a different URL.`;
-      }
-    } catch {}
-    return "Done.";
+function toDelivery(r: DeliveryRow): WebhookDelivery & { payload: WebhookPayload } {
+  return {
+    id: r.id,
+    webhookId: r.webhook_id,
+    event: r.event,
+    status: r.status,
+    attempts: r.attempts,
+    responseStatus: r.response_status,
+    error: r.error,
+    createdAt: r.created_at,
+    nextAttemptAt: r.next_attempt_at,
+    deliveredAt: r.delivered_at,
+    payload: JSON.parse(r.payload) as WebhookPayload,
   };
+}
 
-  const mid = (typeof modelId === "string" && modelId) || "";
-  if (!mid) return fallback();
-
-  try {
-    const messages = [
-      {
-        role: "system",
-        content:
-          "Explain the outcome of a web capture tool (screenshot or PDF) in 1–3 sentences. " +
-          "Be factual and concise. If navigation timed out or required a fallback (e.g., used 'load' instead of 'networkidle0'), or redirected, mention it briefly. " +
-          "Offer one concrete suggestion if helpful (e.g., adjust viewport, increase timeout). The link is already shown; don't repeat it.",
-      },
-      {
-        role: "user",
-        content:
-          `User request:\n${userQuery}\n\n` +
-          `Tool: ${tool}\n\n` +
-          `Result JSON (truncated):\n${JSON.stringify(result).slice(0, 1800)}`
-      }
-    ];
+/** GET /api/sessions/:sid/metrics: where one tool's runs spent their time (ms) */
+type ToolTimings = {
+  tool: string;
+  runs: number;
+  failures: number;
+  retried: number;           // runs that needed more than one navigation attempt
+  avgNavAttempts: number;
+  avg: Record<"totalMs" | "navMs" | "settleMs" | "captureMs" | "uploadMs", number>;
+  max: Record<"totalMs" | "navMs" | "settleMs" | "captureMs" | "uploadMs", number>;
+};
 
-    const out: any = await env.AI.run(mid, { messages, temperature: 0.2, max_tokens: 150 });
-    if (typeof out === "string") return out;
-    if (out && typeof out === "object") {
-      const txt = out.response || out.output || out.text || "";
-      if (typeof txt === "string" && txt.trim()) return txt.trim();
-    }
-    return fallback();
-  } catch {
-    return fallback();
-  }
+/** A tool call the model made, resolved against the registry */
+type PlannedCall = { tool: AgentTool; args: Record<string, unknown>; callId: string };
+
+/** Appended to the system prompt whenever tools are offered */
+function toolInstructions(remote = false): string {
+  return (
+    (remote
+      ? "Tools named mcp_<server>__<tool> come from connected external servers: call one when the user's request matches its description. "
+      : "") +
+    "Tool instructions: Return a tool call ONLY when the user explicitly requests a weather forecast, a page screenshot, a page-to-PDF conversion, or to schedule one of those (or a reminder). " +
+    "Fill arguments only from what the user said (URL or domain, full page, viewport, wait condition, paper format, orientation). " +
+    "If a required location or URL is missing, return the tool call with that argument empty rather than inventing one. " +
+    "Results of tools already run this turn appear as tool messages: call another tool only if the request still needs one " +
+    "(e.g. 'the forecast and then a PDF'), one call at a time, and never repeat a call that already ran. " +
+    "For anything the user wants later or on a repeat, call scheduleTask instead of running the tool now. " +
+    `The current time is ${new Date().toISOString()} (cron runs in UTC; Montreal is UTC-5, or UTC-4 in summer). ` +
+    "Otherwise, do not return any tool call: just answer the user."
+  );
 }
 
 // ---------------------------------------------------------------------------
 
 export default class AIAgent extends Agent<Env, State> {
   declare env: Env;
+  declare ctx: AgentContext;
+
+  /** Store version after migrations ran in this instance (0 = not yet) */
+  #schemaVersion = 0;
+
+  /** Aborts the turn currently running (set while a turn is in flight) */
+  #inflight: AbortController | null = null;
+
+  /** Origin of the last client request; MCP OAuth callbacks come back here */
+  #host = "";
+
+  /** Extra frame sinks besides the WS connections (HTTP chat streams) */
+  #taps = new Set<(frame: Outbound) => void>();
 
   initialState: State = {
     model: DEFAULT_MODEL,
     messages: [],
+    leafId: null,
     createdAt: Date.now(),
-    expiresAt: Date.now() + DAY,
+    expiresAt: Date.now() + DEFAULT_TTL_HOURS * 3_600_000, // re-based on SESSION_TTL_HOURS at first connect
   };
 
+  /** Any wake-up (connect, request, alarm, admin lookup) migrates and arms expiry */
+  async onStart() {
+    await this.#schema();
+  }
+
   async onConnect(conn: Connection, ctx: ConnectionContext) {
     console.log("[agent] connect", { name: this.name, url: ctx.request.url });
     await this.#schema();
-
-    if (!this.state.messages?.length) {
-      const rows = await this.sql<Msg>`SELECT role, content, ts FROM messages ORDER BY ts ASC`;
-      this.setState({
-        ...this.state,
-        messages: rows,
-        expiresAt: Date.now() + DAY,
-      });
-    }
-    conn.send(JSON.stringify({ type: "ready", state: this.state }));
+    if (Date.now() >= this.state.expiresAt) await this.#expire();
+    this.#host = new URL(ctx.request.url).origin;
+    await this.#connectDeploymentMcp();
+
+    // Rebuild the active branch (fresh sibling info; older states have no leafId)
+    const leafId = this.state.leafId ?? (await this.sql<{ id: number | null }>`SELECT MAX(id) AS id FROM messages`)[0]?.id ?? null;
+    this.#setLeaf(leafId);
+    const state = { ...this.state, messages: await this.#clientMessages() };
+    conn.send(JSON.stringify({ type: "ready", state, connectionId: conn.id, tasks: this.#listTasks(), mcp: this.#mcpView() }));
+    await this.#touch();
   }
 
   async onMessage(conn: Connection, message: string | ArrayBuffer | ArrayBufferView) {
     if (typeof message !== "string") return;
-    let data: { type?: "chat" | "reset" | "model"; text?: string; model?: string } | null = null;
+    let data: Inbound | null = null;
     try { data = JSON.parse(message); } catch { /* ignore */ }
     if (!data?.type) return;
+    await this.#touch();
 
     if (data.type === "model" && data.model) {
-      this.setState({ ...this.state, model: data.model, expiresAt: Date.now() + DAY });
+      const unknown = [data.model, ...(data.fallbacks ?? [])].find((id) => !getModel(id));
+      if (unknown) {
+        // Unknown id: keep the current model and tell the sender which one that is
+        console.log("[agent] model rejected", { model: unknown });
+        conn.send(JSON.stringify({
+          type: "model",
+          model: this.#model().id,
+          error: `Unknown model "${unknown}"`,
+          origin: conn.id,
+        }));
+        return;
+      }
+      this.setState({ ...this.state, model: data.model, fallbacks: data.fallbacks ?? this.state.fallbacks });
+      this.#broadcast(conn, { type: "model", model: data.model });
       console.log("[agent] model set", { model: data.model });
       return;
     }
 
+    // Replace the session settings (send {} to go back to defaults)
+    if (data.type === "settings") {
+      const checked = parseSettings(data.settings);
+      if (!checked.ok) {
+        conn.send(JSON.stringify({ type: "settings", settings: this.state.settings ?? {}, error: checked.error, origin: conn.id }));
+        return;
+      }
+      this.setState({ ...this.state, settings: checked.settings });
+      this.#broadcast(conn, { type: "settings", settings: checked.settings });
+      console.log("[agent] settings set", { keys: Object.keys(checked.settings) });
+      return;
+    }
+
     if (data.type === "reset") {
-      await this.sql`DELETE FROM messages`;
-      this.setState({
-        model: this.state.model || DEFAULT_MODEL,
-        messages: [],
-        createdAt: Date.now(),
-        expiresAt: Date.now() + DAY,
-      });
-      conn.send(JSON.stringify({ type: "cleared" }));
+      await this.#reset(conn);
+      return;
+    }
+
+    if (data.type === "mcp_add" || data.type === "mcp_remove" || data.type === "mcp_allow") {
+      const error = await this.#configureMcp(data);
+      if (error) conn.send(JSON.stringify({ type: "mcp", servers: this.#mcpView(), error, origin: conn.id }));
+      else this.#broadcast(conn, { type: "mcp", servers: this.#mcpView() });
+      return;
+    }
+
+    if (data.type === "unschedule" && data.taskId) {
+      await this.cancelSchedule(data.taskId);
+      this.#broadcast(conn, { type: "schedules", tasks: this.#listTasks() });
+      return;
+    }
+
+    if (data.type === "cancel") {
+      if (this.#inflight) {
+        console.log("[agent] cancel requested");
+        this.#inflight.abort();
+      }
       return;
     }
 
     if (data.type === "chat") {
       const userText = (data.text || "").trim();
       if (!userText) return;
-
-      const now = Date.now();
-      await this.sql`INSERT INTO messages (role, content, ts) VALUES ('user', ${userText}, ${now})`;
-      const userMsg: Msg = { role: "user", content: userText, ts: now };
-
-      this.setState({
-        ...this.state,
-        messages: [...this.state.messages, userMsg],
-        expiresAt: Date.now() + DAY,
+      await this.#turn(conn, async (signal) => {
+        await this.#insert("user", userText);
+        // other tabs/devices on this session render the prompt too
+        this.#broadcast(conn, { type: "user", text: userText });
+        await this.#chat(conn, userText, signal);
       });
+      return;
+    }
 
-      // Build short history for planning + chat (filter out tool rows)
-      const recentUA = this.state.messages.slice(-40).filter(isUserOrAssistant);
-      const history: ChatMessage[] = recentUA.map(({ role, content }) => ({ role, content }));
+    // Retry the answer to a prompt: new branch under the same user message
+    if (data.type === "regenerate" && typeof data.id === "number") {
+      const prompt = this.#promptFor(data.id);
+      if (!prompt) return;
+      await this.#turn(conn, async (signal) => {
+        this.#setLeaf(prompt.id);
+        this.#broadcast(conn, { type: "history", messages: await this.#clientMessages() });
+        await this.#chat(conn, prompt.content, signal);
+      });
+      return;
+    }
 
-      // --- 1) PLANNER PASS (tool-calling) -----------------------------------
-      const planned = await this.#tryPlanTool(history, userText);
-      if (planned?.tool === "getWeather") {
-        const args = planned.args as Partial<WeatherArgs>;
+    // Fix a prompt: new sibling user message, answered on its own branch
+    if (data.type === "edit" && typeof data.id === "number") {
+      const userText = (data.text || "").trim();
+      const [row] = await this.sql<MsgRow>`SELECT id, parent_id, role, content, ts, model FROM messages WHERE id = ${data.id}`;
+      if (!userText || row?.role !== "user") return;
+      await this.#turn(conn, async (signal) => {
+        this.#setLeaf(row.parent_id);
+        await this.#insert("user", userText);
+        this.#broadcast(conn, { type: "history", messages: await this.#clientMessages() });
+        await this.#chat(conn, userText, signal);
+      });
+      return;
+    }
 
-        // small “I’m on it” assistant message (streamed + persisted)
-        const pre = `Sure — I’ll check the forecast for ${args.location ?? "that location"} using getWeather…`;
-        conn.send(JSON.stringify({ type: "delta", text: pre }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, pre);
+    // Flip to another sibling: show its branch down to the newest tip
+    if (data.type === "branch" && typeof data.id === "number") {
+      if (this.#inflight) return;
+      const [row] = await this.sql<{ id: number }>`SELECT id FROM messages WHERE id = ${data.id}`;
+      if (!row) return;
+      this.#setLeaf(await this.#tipOf(row.id));
+      this.#broadcast(conn, { type: "history", messages: await this.#clientMessages() });
+    }
+  }
 
-        // progress events (ephemeral)
-        emitWeatherTool(conn, { type: "tool", tool: "getWeather", status: "started", message: "Planning weather lookup…" });
-        emitWeatherTool(conn, { type: "tool", tool: "getWeather", status: "step",    message: "Fetching forecast from Open-Meteo…" });
+  // ---------------------- HTTP API ------------------------------------------
+
+  /**
+   * Forwarded by the worker from /api/sessions/:sid/... (session token already checked):
+   *   POST …/chat {text} → SSE stream of this turn's frames (same shapes as over WS)
+   *   GET  …/history     → active branch, model and pending tasks
+   *   DELETE …           → reset
+   *   …/webhooks[/…]     → webhook subscriptions and delivery log (see #webhooksApi)
+   *   GET  …/metrics     → browser tool step timings per tool (ToolTimings)
+   */
+  async onRequest(request: Request): Promise<Response> {
+    await this.#schema();
+    // Operator requests built by the worker's /api/admin (admin.ts): not client activity
+    if (new URL(request.url).pathname.startsWith("/admin/")) return this.#adminApi(request);
+    if (Date.now() >= this.state.expiresAt) await this.#expire();
+    await this.#touch();
+    this.#host = new URL(request.url).origin;
+
+    if (new URL(request.url).pathname === "/v1/chat/completions" && request.method === "POST") return this.#completions(request);
+    const [action, ...rest] = new URL(request.url).pathname.split("/").filter(Boolean).slice(3); // api/sessions/:sid/<action>/…
+    if (request.method === "POST" && action === "chat") return this.#chatStream(request);
+    if (action === "webhooks") return this.#webhooksApi(request, rest);
+    if (request.method === "GET" && action === "metrics") return json({ tools: this.#toolTimings() });
+    if (request.method === "GET" && action === "history") {
+      return json({
+        model: this.#model().id,
+        leafId: this.state.leafId,
+        messages: await this.#clientMessages(),
+        tasks: this.#listTasks(),
+        expiresAt: this.state.expiresAt,
+      });
+    }
+    if (request.method === "DELETE" && !action) {
+      await this.#reset(null);
+      return json({ ok: true });
+    }
+    return json({ error: "Not found" }, 404);
+  }
 
-        // actual call
-        const res = await getWeather(args);
+  /**
+   * Run one chat turn for an HTTP caller and stream its frames as SSE
+   * (`event: <type>`, `data: <frame>`). The stream ends after the turn's final
+   * `history` frame; a client that disconnects cancels the turn.
+   */
+  async #chatStream(request: Request): Promise<Response> {
+    let body: { text?: unknown } = {};
+    try { body = await request.json(); } catch { /* ignore */ }
+    const userText = typeof body.text === "string" ? body.text.trim() : "";
+    if (!userText) return json({ error: "Body must be JSON with a non-empty `text`" }, 400);
+    if (this.#inflight) return json({ error: "A turn is already running on this session" }, 409);
+
+    const origin: Origin = { id: `http:${crypto.randomUUID()}` };
+    const enc = new TextEncoder();
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const tap = (frame: Outbound) => {
+      if (frame.origin !== origin.id) return;
+      writer.write(enc.encode(`event: ${frame.type}\ndata: ${JSON.stringify(frame)}\n\n`)).catch(() => {
+        // reader went away: stop listening and cancel the turn it started
+        if (this.#taps.delete(tap)) this.#inflight?.abort();
+      });
+    };
+    this.#taps.add(tap);
 
-        if (!res.ok) {
-          emitWeatherTool(conn, { type: "tool", tool: "getWeather", status: "error", message: res.error });
-          await this.#saveAssistant(conn, `I couldn't fetch the weather: ${res.error}`);
-          return;
-        }
+    const turn = this.#turn(origin, async (signal) => {
+      await this.#insert("user", userText);
+      this.#broadcast(origin, { type: "user", text: userText });
+      await this.#chat(origin, userText, signal);
+    });
+    void turn
+      .catch((e) => console.log("[agent] chat turn failed:", e instanceof Error ? e.message : String(e)))
+      .finally(() => {
+        this.#taps.delete(tap);
+        writer.close().catch(() => { /* already closed */ });
+      });
 
-        // progress done (ephemeral for immediate UI)
-        emitWeatherTool(conn, { type: "tool", tool: "getWeather", status: "done", message: "Forecast ready", result: res });
+    return new Response(readable, {
+      headers: { "content-type": "text/event-stream", "cache-control": "no-cache", "x-accel-buffering": "no" },
+    });
+  }
 
-        // persist final tool result so it survives refresh
-        const toolRow: Msg = {
-          role: "tool",
-          content: JSON.stringify({ type: "tool_result", tool: "getWeather", result: res }),
-          ts: Date.now(),
-        };
-        await this.sql`INSERT INTO messages (role, content, ts) VALUES ('tool', ${toolRow.content}, ${toolRow.ts})`;
-        this.setState({ ...this.state, messages: [...this.state.messages, toolRow], expiresAt: Date.now() + DAY });
-
-        // agentic summary (same model) — streamed + persisted
-        await this.#streamSummary(conn, userText, res);
-        return;
+  /**
+   * POST /v1/chat/completions (OpenAI-compatible, see openai.ts). Stateless:
+   * the caller's messages are the history and only artifacts are kept. At most
+   * one agent tool runs; its summary and a link to its artifact are the answer.
+   * Streaming sends tool progress as SSE comments, which OpenAI clients ignore.
+   */
+  async #completions(request: Request): Promise<Response> {
+    let raw: unknown = null;
+    try { raw = await request.json(); } catch { /* ignore */ }
+    const parsed = parseCompletionRequest(raw);
+    if (!parsed.ok) return openaiError(400, parsed.error);
+
+    const id = completionId();
+    const abort = new AbortController();
+    const meta = { model: (getModel(parsed.req.model) ?? this.#model()).id };
+
+    if (!parsed.req.stream) {
+      let content = "";
+      try {
+        const r = await this.#complete(parsed.req, request.url, meta, abort.signal, (t) => { content += t; });
+        if (!r.ok) return openaiError(503, r.error, "server_error");
+        return json(completionBody(id, meta.model, content, r.usage));
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        console.log("[agent] completion failed:", error);
+        return openaiError(500, error, "server_error");
       }
+    }
 
-      // ---- SCREENSHOT (rule-of-thumb trigger) --------------------------------
-      const ssMatch = /\b(screenshot|capture\b.*(page|site|screen)|image of)\b/i.test(userText);
-      if (ssMatch) {
-        // Extract a URL-ish token (very simple heuristic)
-        const m = userText.match(/\bhttps?:\/\/\S+|(?:\b[\w-]+\.)+\w{2,}(?:\/\S*)?/i);
-        const target = m?.[0] ?? "";
-        const args: ScreenshotArgs = { url: target || "https://example.com", fullPage: true };
-
-  const pre = `Okay — I’ll capture a full-page screenshot of ${target || "that page"}…`;
-  conn.send(JSON.stringify({ type: "delta", text: pre }));
-  conn.send(JSON.stringify({ type: "done" }));
-  await this.#saveAssistant(conn, pre);
-
-  emitTool(conn, { type: "tool", tool: "screenshot", status: "started", message: "Planning capture…" });
-  const sid = this.name; // your Agent name is the session id
-  const res: import("./tools/captureScreenshot").ScreenshotResult = await captureScreenshot(this.env, sid, args, (msg) =>
-    emitTool(conn, { type: "tool", tool: "screenshot", status: "step", message: msg })
-  );
+    const enc = new TextEncoder();
+    const { readable, writable } = new TransformStream<Uint8Array, Uint8Array>();
+    const writer = writable.getWriter();
+    const write = (s: string) => writer.write(enc.encode(s)).catch(() => abort.abort()); // client went away
+    void (async () => {
+      try {
+        const r = await this.#complete(
+          parsed.req,
+          request.url,
+          meta,
+          abort.signal,
+          (t) => void write(completionChunk(id, meta.model, t)),
+          (msg) => void write(`: ${msg.replace(/\n/g, " ")}\n\n`)
+        );
+        if (!r.ok) await write(completionChunk(id, meta.model, `Sorry — no model could answer right now (${r.error}).`));
+        await write(completionChunk(id, meta.model, null, r.ok ? r.usage : undefined));
+      } catch (e) {
+        const error = e instanceof Error ? e.message : String(e);
+        console.log("[agent] completion failed:", error);
+        await write(completionErrorChunk(error));
+      } finally {
+        await write("data: [DONE]\n\n");
+        await writer.close().catch(() => { /* already closed */ });
+      }
+    })();
+    return new Response(readable, { headers: { "content-type": "text/event-stream", "cache-control": "no-cache" } });
+  }
 
-  if (!res.ok) {
-    emitTool(conn, { type: "tool", tool: "screenshot", status: "error", message: res.error, result: res });
-  
-    // Agentic summary (safe; falls back deterministically if AI fails)
-    const summary = await summarizeToolOutcome(
-      this.env,
-      (this.state?.model as string | undefined),
-      userText,
-      "screenshot",
-      res
+  /** One completion: planner call (text goes to `emit`), then the tool it picked, if any */
+  async #complete(
+    req: CompletionRequest,
+    baseUrl: string,
+    meta: { model: string },
+    signal: AbortSignal,
+    emit: (text: string) => void,
+    progress?: (msg: string) => void
+  ): Promise<{ ok: true; usage?: AIUsage } | { ok: false; error: string }> {
+    const settings = this.state.settings ?? {};
+    const first = modelOrDefault(meta.model);
+    const offerTools = req.tools.length > 0 && first.tools;
+    const chain = [first, ...this.#modelChain(offerTools).filter((m) => m.id !== first.id)].filter((m) => !offerTools || m.tools);
+    const base = [composeSystemPrompt(SYSTEM_BEHAVIOR, settings), ...req.system].join("\n\n");
+    const system = offerTools ? `${base}\n\n${toolInstructions()}` : base;
+
+    const run = await runWithFallback(
+      this.env.AI,
+      chain,
+      (m) => ({
+        messages: [{ role: "system", content: system }, ...req.messages],
+        tools: offerTools ? toolSchemas().filter((t) => req.tools.includes(t.function.name)) : undefined,
+        stream: req.stream && m.streaming,
+        temperature: req.temperature ?? settings.temperature ?? m.temperature,
+        max_tokens: req.maxTokens ?? settings.maxTokens,
+      }),
+      signal
     );
-    conn.send(JSON.stringify({ type: "delta", text: summary }));
-    conn.send(JSON.stringify({ type: "done" }));
-    await this.#saveAssistant(conn, summary);
-    return;
+    if (!run.ok) return { ok: false, error: run.error };
+    meta.model = run.model.id;
+
+    const out = await readAIOutput(run.out, emit, signal);
+    const call = this.#firstToolCall(out.toolCalls);
+    const planned = call && req.tools.includes(call.tool.schema.function.name) ? call : null;
+    const sep = out.text.trim() ? "\n\n" : "";
+    if (!planned) {
+      if (!out.text.trim()) emit("[no response]");
+      return { ok: true, usage: out.usage };
+    }
+
+    const userText = [...req.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+    const checked = planned.tool.parseArgs(planned.args, userText);
+    if (!checked.ok) {
+      emit(sep + checked.question);
+      return { ok: true, usage: out.usage };
+    }
+
+    const ctx: ToolContext = { env: this.env, sid: this.name, model: run.model.id, settings, signal };
+    progress?.(planned.tool.preamble(checked.args));
+    const res = await planned.tool.execute(ctx, checked.args, (msg) => progress?.(msg));
+    if (signal.aborted) return { ok: true, usage: out.usage };
+    const summary = await planned.tool.summarize(ctx, userText, res);
+
+    // Artifact as markdown: image inline, anything else as a link (fetch it with the same Bearer token)
+    const file = res as { ok: boolean; url?: string; contentType?: string };
+    let link = "";
+    if (file.ok && file.url) {
+      const abs = new URL(file.url, baseUrl).toString();
+      link = file.contentType?.startsWith("image/") ? `\n\n![${planned.tool.title}](${abs})` : `\n\n[${planned.tool.title}](${abs})`;
+    }
+    emit(sep + summary + link);
+    return { ok: true, usage: out.usage };
   }
 
-  emitTool(conn, { type: "tool", tool: "screenshot", status: "done", message: "Screenshot ready", result: res });
+  /** Clear the conversation (model, fallbacks, settings and MCP servers stay); revokes artifact links */
+  async #reset(origin: Origin | null) {
+    await this.sql`DELETE FROM messages`;
+    await this.sql`DELETE FROM memory`;
+    for (const t of this.#listTasks()) await this.cancelSchedule(t.id);
+    await revokeFileUrls(this.env, this.name);
+    this.setState({
+      model: this.#model().id,
+      fallbacks: this.state.fallbacks,
+      settings: this.state.settings,
+      mcpServers: this.state.mcpServers,
+      messages: [],
+      leafId: null,
+      createdAt: Date.now(),
+      expiresAt: Date.now() + sessionTtlSeconds(this.env) * 1000,
+    });
+    this.#broadcast(origin, { type: "cleared" });
+    this.#broadcast(origin, { type: "schedules", tasks: [] });
+  }
 
-  // persist tool row
-  const toolRow: Msg = {
-    role: "tool",
-    content: JSON.stringify({ type: "tool_result", tool: "screenshot", result: res }),
-    ts: Date.now(),
-  };
-  await this.sql`INSERT INTO messages (role, content, ts) VALUES ('tool', ${toolRow.content}, ${toolRow.ts})`;
-  this.setState({ ...this.state, messages: [...this.state.messages, toolRow], expiresAt: Date.now() + DAY });
-
-  // agentic summary (keeps everything else the same)
-  const summary = await summarizeToolOutcome(
-    this.env,
-    (this.state?.model as string | undefined),
-    userText,
-    "screenshot",
-    res
-  );
-  conn.send(JSON.stringify({ type: "delta", text: summary }));
-  conn.send(JSON.stringify({ type: "done" }));
-  await this.#saveAssistant(conn, summary);
-  return;
+  /**
+   * Run one turn with a fresh AbortController ({type:"cancel"} aborts it).
+   * Only one turn at a time; clients re-sync from the `history` frame at the end.
+   */
+  async #turn(conn: Origin | null, run: (signal: AbortSignal) => Promise<void>) {
+    if (this.#inflight) {
+      console.log("[agent] turn already running; ignoring");
+      return;
+    }
+    const turnAbort = new AbortController();
+    this.#inflight = turnAbort;
+    try {
+      await run(turnAbort.signal);
+    } finally {
+      if (this.#inflight === turnAbort) this.#inflight = null;
+      this.#setLeaf(this.state.leafId);
+      this.#broadcast(conn, { type: "history", messages: await this.#clientMessages() });
+    }
+  }
+
+  // ---------------------- Chat turn -----------------------------------------
+
+  /** Answer the prompt at the tip of the active branch */
+  async #chat(conn: Origin | null, userText: string, signal: AbortSignal) {
+    // History for the model: memory summary + recent rows (tool outcomes included)
+    const history = await this.#history();
+
+    // AGENT LOOP: act → observe (bounded). Each step is one streamed model call
+    // that either answers (text goes straight to clients) or calls a tool; tool
+    // calls and results are appended to `turn` so the next step sees them.
+    const turn: ChatMessage[] = [...history];
+    const maxSteps = this.#maxToolSteps();
+    const seen = new Set<string>();
+    let ran = 0;
+
+    for (;;) {
+      // Once a tool ran, its summary is the answer: later steps only pick another tool
+      const planned = await this.#generate(conn, turn, signal, { live: ran === 0 });
+      if (!planned || signal.aborted) return;
+
+      const checked = planned.tool.parseArgs(planned.args, userText);
+      if (!checked.ok) {
+        // Missing/unusable input → ask once instead of guessing
+        await this.#say(conn, checked.question);
+        return;
       }
 
-      // ---- PDF (rule-of-thumb trigger) ---------------------------------------
-      const pdfMatch = /\b(pdf|export to pdf|save as pdf|render .* pdf)\b/i.test(userText);
-      if (pdfMatch) {
-        const m = userText.match(/\bhttps?:\/\/\S+|(?:\b[\w-]+\.)+\w{2,}(?:\/\S*)?/i);
-        const target = m?.[0] ?? "";
-        const args: PdfArgs = { url: target || "https://example.com", pdf: { format: "A4", scale: 1 } };
-
-        const pre = `Got it — I’ll render a PDF of ${target || "that page"}…`;
-        conn.send(JSON.stringify({ type: "delta", text: pre }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, pre);
-
-        emitTool(conn, { type: "tool", tool: "convertToPdf", status: "started", message: "Planning PDF…" });
-        const sid = this.name;
-        const res: import("./tools/convertToPdf").PdfResult = await convertToPdf(this.env, sid, args, (msg) =>
-          emitTool(conn, { type: "tool", tool: "convertToPdf", status: "step", message: msg })
-        );
+      // Never repeat an identical call within one turn
+      const key = `${planned.tool.name}:${JSON.stringify(checked.args)}`;
+      if (seen.has(key)) return;
+      seen.add(key);
 
-        if (!res.ok) {
-          emitTool(conn, { type: "tool", tool: "convertToPdf", status: "error", message: res.error, result: res });
-        
-          const summary = await summarizeToolOutcome(
-            this.env,
-            (this.state?.model as string | undefined),
-            userText,
-            "convertToPdf",
-            res
-          );
-          conn.send(JSON.stringify({ type: "delta", text: summary }));
-          conn.send(JSON.stringify({ type: "done" }));
-          await this.#saveAssistant(conn, summary);
-          return;
+      if (ran >= maxSteps) {
+        const note = `I stopped after ${ran} tool step${ran === 1 ? "" : "s"}. Ask me to continue if you need more.`;
+        await this.#say(conn, note);
+        return;
+      }
+
+      const res = await this.#runTool(conn, planned.tool, checked.args, userText, signal);
+      ran++;
+      if (signal.aborted) return;
+
+      turn.push(
+        {
+          role: "assistant",
+          content: "",
+          tool_calls: [{ id: planned.callId, type: "function", function: { name: planned.tool.schema.function.name, arguments: JSON.stringify(checked.args) } }],
+        },
+        {
+          role: "tool",
+          name: planned.tool.schema.function.name,
+          tool_call_id: planned.callId,
+          content: JSON.stringify(res).slice(0, 1800),
         }
+      );
+    }
+  }
 
-        emitTool(conn, { type: "tool", tool: "convertToPdf", status: "done", message: "PDF ready", result: res });
+  /** Registry entry for the session model (sessions saved with a removed model get the default) */
+  #model(): ModelInfo {
+    return modelOrDefault(this.state.model);
+  }
 
-        // persist tool row
-        const toolRow: Msg = {
-          role: "tool",
-          content: JSON.stringify({ type: "tool_result", tool: "convertToPdf", result: res }),
-          ts: Date.now(),
-        };
-        await this.sql`INSERT INTO messages (role, content, ts) VALUES ('tool', ${toolRow.content}, ${toolRow.ts})`;
-        this.setState({ ...this.state, messages: [...this.state.messages, toolRow], expiresAt: Date.now() + DAY });
-
-        const summary = await summarizeToolOutcome(
-          this.env,
-          (this.state?.model as string | undefined),
-          userText,
-          "convertToPdf",
-          res
-        );
-        conn.send(JSON.stringify({ type: "delta", text: summary }));
-        conn.send(JSON.stringify({ type: "done" }));
-        await this.#saveAssistant(conn, summary);
-        return;
-      }
+  /**
+   * Models to try for one call: the session model, then its fallbacks (the
+   * session's list, or the rest of the registry). `tools` keeps only models
+   * that can call functions.
+   */
+  #modelChain(tools = false): ModelInfo[] {
+    const first = this.#model();
+    const rest = (this.state.fallbacks ?? MODELS.map((m) => m.id))
+      .map((id) => getModel(id))
+      .filter((m): m is ModelInfo => !!m && m.id !== first.id);
+    return [first, ...rest].filter((m) => !tools || m.tools);
+  }
 
-      // --- 2) FALLBACK: plain streaming chat --------------------------------
-      await this.#streamAssistant(conn, history);
+  /** Tool calls allowed per turn (MAX_TOOL_STEPS var, 1–8) */
+  #maxToolSteps(): number {
+    const n = Number(this.env.MAX_TOOL_STEPS);
+    return Number.isFinite(n) && n >= 1 ? Math.min(8, Math.floor(n)) : 4;
+  }
+
+  // ---------------------- Tool pipeline -------------------------------------
+
+  /**
+   * Run any registered tool: preamble → progress events → persisted tool row → summary.
+   * Every run gets its own `callId` so the SPA renders one card per step.
+   */
+  async #runTool(
+    conn: Origin | null,
+    tool: AgentTool,
+    args: Record<string, unknown>,
+    userText: string,
+    signal: AbortSignal
+  ): Promise<ToolResult> {
+    // small “I’m on it” assistant message (streamed + persisted)
+    const pre = tool.preamble(args);
+    await this.#say(conn, pre);
+
+    const ctx: ToolContext = {
+      env: this.env,
+      sid: this.name,
+      model: this.#model().id,
+      settings: this.state.settings ?? {},
+      signal,
+      messageId: this.state.leafId,
+      tasks: this.#scheduler(userText),
+    };
+
+    const callId = crypto.randomUUID();
+
+    // progress events (ephemeral)
+    this.#emitTool(conn, { type: "tool", tool: tool.name, callId, status: "started", title: tool.title, steps: tool.steps });
+    let res: ToolResult;
+    try {
+      res = await tool.execute(ctx, args, (msg, step) =>
+        this.#emitTool(conn, { type: "tool", tool: tool.name, callId, status: "step", message: msg, step })
+      );
+    } catch (e) {
+      // a throwing tool still ends in an error frame and a saved row, like any failed run
+      const error = e instanceof Error ? e.message : String(e);
+      console.log("[agent] tool threw", { tool: tool.name, error });
+      res = { ok: false, error, code: "TOOL_FAILED" };
     }
+
+    if (!res.ok) {
+      const code = signal.aborted ? "CANCELLED" : res.code;
+      this.#emitTool(conn, { type: "tool", tool: tool.name, callId, status: "error", message: res.error, code, result: res });
+    } else {
+      this.#emitTool(conn, { type: "tool", tool: tool.name, callId, status: "done", message: `${tool.title} ready`, result: res });
+    }
+
+    // persist every step (failures too) so multi-step chains survive refresh
+    const row = await this.#insert(
+      "tool",
+      JSON.stringify({ type: "tool_result", tool: tool.name, callId, title: tool.title, steps: tool.steps, result: res })
+    );
+    this.#recordTimings(row.id, tool.name, res);
+
+    // agentic summary — streamed + persisted (no model call once cancelled)
+    const summary = signal.aborted
+      ? `Stopped — the ${tool.title.toLowerCase()} run was cancelled.`
+      : await tool.summarize(ctx, userText, res);
+    await this.#say(conn, summary);
+    return res;
   }
 
-  // ---------------------- Streaming chat fallback ---------------------------
+  /** Step timings of a browser tool run (result.metrics) → tool_metrics */
+  #recordTimings(messageId: number, tool: string, res: ToolResult) {
+    const m = (res as { metrics?: CaptureMetrics }).metrics;
+    if (!m) return;
+    const code = res.ok ? null : res.code ?? null;
+    void this.sql`
+      INSERT INTO tool_metrics (message_id, tool, ok, code, total_ms, nav_ms, settle_ms, capture_ms, upload_ms, nav_attempts, ts)
+      VALUES (${messageId}, ${tool}, ${res.ok ? 1 : 0}, ${code}, ${m.totalMs}, ${m.navMs}, ${m.settleMs},
+              ${m.captureMs ?? m.renderMs ?? 0}, ${m.uploadMs}, ${m.navAttempts}, ${Date.now()})`;
+  }
 
-  async #streamAssistant(conn: Connection, history: ChatMessage[]) {
-    let full = "";
+  #toolTimings(): ToolTimings[] {
+    type Stat = "runs" | "failures" | "retried" | "attempts" | `${"avg" | "max"}_${"total" | "nav" | "settle" | "capture" | "upload"}`;
+    const rows = this.sql<{ tool: string } & Record<Stat, number>>`
+      SELECT tool, COUNT(*) AS runs, SUM(ok = 0) AS failures, SUM(nav_attempts > 1) AS retried, AVG(nav_attempts) AS attempts,
+             AVG(total_ms) AS avg_total, MAX(total_ms) AS max_total, AVG(nav_ms) AS avg_nav, MAX(nav_ms) AS max_nav,
+             AVG(settle_ms) AS avg_settle, MAX(settle_ms) AS max_settle, AVG(capture_ms) AS avg_capture, MAX(capture_ms) AS max_capture,
+             AVG(upload_ms) AS avg_upload, MAX(upload_ms) AS max_upload
+      FROM tool_metrics GROUP BY tool ORDER BY tool`;
+    const r0 = (n: number) => Math.round(n);
+    return rows.map((r) => ({
+      tool: r.tool,
+      runs: r.runs,
+      failures: r.failures,
+      retried: r.retried,
+      avgNavAttempts: Math.round(r.attempts * 10) / 10,
+      avg: { totalMs: r0(r.avg_total), navMs: r0(r.avg_nav), settleMs: r0(r.avg_settle), captureMs: r0(r.avg_capture), uploadMs: r0(r.avg_upload) },
+      max: { totalMs: r.max_total, navMs: r.max_nav, settleMs: r.max_settle, captureMs: r.max_capture, uploadMs: r.max_upload },
+    }));
+  }
+
+  // ---------------------- External MCP servers ------------------------------
+
+  /** Connect the MCP_SERVERS deployment servers this session doesn't have yet */
+  async #connectDeploymentMcp() {
+    const have = new Set((this.state.mcpServers ?? []).map((s) => s.url));
+    for (const cfg of deploymentMcpServers(this.env)) {
+      if (have.has(cfg.url)) continue;
+      const added = await this.#addMcp(cfg, "deployment");
+      if (typeof added === "string") console.log("[mcp] deployment server failed", { name: cfg.name, error: added });
+    }
+  }
+
+  /** Connect a server and remember it; returns an error message on failure */
+  async #addMcp(cfg: McpServerConfig, source: McpServerEntry["source"]): Promise<string | void> {
     try {
-      const out = await this.env.AI.run(this.state.model || DEFAULT_MODEL, {
-        messages: [
-          { role: "system", content: SYSTEM_BEHAVIOR },
-          ...history,
-        ],
-        stream: true,
-      });
+      const { id } = await this.addMcpServer(cfg.name, cfg.url, this.#host, "agents", cfg.headers ? { transport: { headers: cfg.headers } } : undefined);
+      const entry: McpServerEntry = { id, name: cfg.name, url: cfg.url, allow: cfg.allow, source };
+      this.setState({ ...this.state, mcpServers: [...(this.state.mcpServers ?? []), entry] });
+      console.log("[mcp] server added", { name: cfg.name, source });
+    } catch (e) {
+      return `Could not connect to ${cfg.url}: ${(e as Error)?.message ?? e}`;
+    }
+  }
 
-      const stream = isReadableStream(out) ? out : null;
-      if (!stream) {
-        const fallbackText = typeof out === "string" ? out : "[no response]";
-        await this.#saveAssistant(conn, fallbackText);
-        return;
-      }
+  /** mcp_add / mcp_remove / mcp_allow; returns an error message for the sender */
+  async #configureMcp(data: Inbound): Promise<string | void> {
+    const servers = this.state.mcpServers ?? [];
+    if (data.type === "mcp_add") {
+      const parsed = parseSessionMcpServer(data.server, this.#host);
+      if (!parsed.ok) return parsed.error;
+      if (servers.some((s) => s.url === parsed.server.url)) return "That server is already connected";
+      return this.#addMcp(parsed.server, "session");
+    }
+
+    const entry = servers.find((s) => s.id === data.serverId);
+    if (!entry) return "Unknown MCP server";
+    if (data.type === "mcp_remove") {
+      if (entry.source === "deployment") return "This server is configured for the deployment; narrow its allowed tools instead";
+      await this.removeMcpServer(entry.id);
+      this.setState({ ...this.state, mcpServers: servers.filter((s) => s.id !== entry.id) });
+      return;
+    }
+    const allow = Array.isArray(data.allow) ? data.allow.filter((t): t is string => typeof t === "string") : undefined;
+    this.setState({ ...this.state, mcpServers: servers.map((s) => (s.id === entry.id ? { ...s, allow } : s)) });
+  }
 
-      const reader = stream.getReader();
-      const decoder = new TextDecoder();
-
-      let buffer = "";
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-
-        let idx: number;
-        while ((idx = buffer.indexOf("\n\n")) !== -1) {
-          const frame = buffer.slice(0, idx);
-          buffer = buffer.slice(idx + 2);
-
-          for (const line of frame.replace(/\r\n/g, "\n").split("\n")) {
-            if (!line.startsWith("data:")) continue;
-            const payload = line.slice(5).trimStart();
-            if (!payload || payload === "[DONE]") continue;
-
-            try {
-              const json = JSON.parse(payload) as { response?: string };
-              const piece = typeof json?.response === "string" ? json.response : "";
-              if (piece) {
-                full += piece;
-                conn.send(JSON.stringify({ type: "delta", text: piece }));
-              }
-            } catch {
-              full += payload;
-              conn.send(JSON.stringify({ type: "delta", text: payload }));
-            }
-          }
+  /** Servers with their live connection state and listed tools */
+  #mcpView(): McpServerView[] {
+    const live = this.getMcpServers();
+    const tools = this.mcp.listTools();
+    return (this.state.mcpServers ?? []).map((s) => ({
+      id: s.id,
+      name: s.name,
+      url: s.url,
+      source: s.source,
+      allow: s.allow,
+      state: live.servers[s.id]?.state ?? "failed",
+      authUrl: live.servers[s.id]?.auth_url ?? null,
+      tools: tools.filter((t) => t.serverId === s.id).map((t) => t.name),
+    }));
+  }
+
+  /** Allowed tools of every connected server, as AgentTools */
+  #remoteTools(): AgentTool[] {
+    const servers = new Map((this.state.mcpServers ?? []).map((s) => [s.id, s]));
+    const call = (def: RemoteToolDef, args: Record<string, unknown>, signal: AbortSignal) =>
+      this.mcp.callTool({ serverId: def.serverId, name: def.name, arguments: args }, undefined, { signal });
+    return this.mcp.listTools().flatMap((t) => {
+      const s = servers.get(t.serverId);
+      if (!s || (s.allow && !s.allow.includes(t.name))) return [];
+      const def: RemoteToolDef = { serverId: t.serverId, name: t.name, description: t.description, inputSchema: t.inputSchema };
+      return [remoteTool(s.name, def, call)];
+    });
+  }
+
+  // ---------------------- Scheduled tasks -----------------------------------
+
+  /** scheduleTask's view of the SDK scheduler; target args are checked against the prompt that asked */
+  #scheduler(userText: string): TaskScheduler {
+    return {
+      create: async (spec) => {
+        let args = spec.args;
+        if (spec.tool !== "reminder") {
+          const target = getToolByFunction(spec.tool);
+          if (!target || target.name === "scheduleTask") return { ok: false, error: `Unknown task tool "${spec.tool}".` };
+          const checked = target.parseArgs(spec.args, userText);
+          if (!checked.ok) return { ok: false, error: checked.question };
+          args = checked.args;
         }
+
+        const w = spec.when;
+        const when = "cron" in w ? w.cron : "at" in w ? new Date(w.at) : w.delaySeconds;
+        const payload: TaskPayload = { description: spec.description, tool: spec.tool, args };
+        try {
+          const s = await this.schedule<TaskPayload>(when, "runScheduledTask", payload);
+          this.#broadcast(null, { type: "schedules", tasks: this.#listTasks() });
+          console.log("[agent] task scheduled", { id: s.id, type: s.type, tool: spec.tool });
+          return { ok: true, task: toTaskInfo(s) };
+        } catch (e) {
+          return { ok: false, error: e instanceof Error ? e.message : String(e) };
+        }
+      },
+    };
+  }
+
+  #listTasks(): TaskInfo[] {
+    return this.getSchedules<TaskPayload>()
+      .filter((s) => s.callback === "runScheduledTask")
+      .map(toTaskInfo)
+      .sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Schedule callback (SDK alarm): runs the task as a turn with no originating
+   * connection, so connected clients see it live and the rows persist for later.
+   */
+  async runScheduledTask(payload: TaskPayload, schedule: Schedule<TaskPayload>) {
+    await this.#schema();
+    if (this.#inflight) {
+      // A live turn owns the conversation; try again in a minute
+      console.log("[agent] task deferred (turn in flight)", { id: schedule.id });
+      await this.schedule<TaskPayload>(60, "runScheduledTask", payload);
+    } else {
+      await this.#turn(null, async (signal) => {
+        if (payload.tool === "reminder") {
+          await this.#say(null, `⏰ Reminder: ${String(payload.args.text ?? payload.description)}`);
+          return;
+        }
+        await this.#say(null, `⏰ Scheduled task: ${payload.description}`);
+        const tool = getToolByFunction(payload.tool);
+        if (!tool) {
+          await this.#say(null, `The ${payload.tool} tool is no longer available, so this task was skipped.`);
+          return;
+        }
+        await this.#runTool(null, tool, payload.args, payload.description, signal);
+      });
+    }
+
+    // One-off tasks are deleted by the SDK right after this returns
+    const tasks = this.#listTasks().filter((t) => t.id !== schedule.id || schedule.type === "cron");
+    this.#broadcast(null, { type: "schedules", tasks });
+  }
+
+  // ---------------------- Admin ---------------------------------------------
+
+  /**
+   *   GET    /admin/summary    → AgentSummary
+   *   GET    /admin/transcript → summary, leafId and every stored row (all branches)
+   *   DELETE /admin/session    → #purge
+   *   POST   /admin/sweep      → #purge unless still in use (orphan sweep, admin.ts)
+   */
+  async #adminApi(request: Request): Promise<Response> {
+    const what = new URL(request.url).pathname.slice("/admin/".length);
+    if (request.method === "GET" && what === "summary") return json(this.#adminSummary());
+    if (request.method === "GET" && what === "transcript") {
+      const rows = this.sql<MsgRow & { prompt_tokens: number | null; completion_tokens: number | null }>`
+        SELECT id, parent_id, role, content, ts, model, prompt_tokens, completion_tokens FROM messages ORDER BY id ASC`;
+      return json({
+        summary: this.#adminSummary(),
+        leafId: this.state.leafId,
+        messages: rows.map((r) => ({
+          id: r.id,
+          parentId: r.parent_id,
+          role: r.role,
+          content: r.content,
+          ts: r.ts,
+          model: r.model,
+          promptTokens: r.prompt_tokens,
+          completionTokens: r.completion_tokens,
+        })),
+      });
+    }
+    if (request.method === "DELETE" && what === "session") {
+      await this.#purge();
+      return json({ ok: true });
+    }
+    // No KV marker means no client can get a token for this session again. An
+    // open WS still counts as in use, and a session not yet past expiresAt is
+    // left to its own retention alarm. Sessions from before signed ids do store
+    // expiresAt, but their alarm may never have been scheduled; once past it,
+    // this sweep is what removes them
+    if (request.method === "POST" && what === "sweep") {
+      if ([...this.getConnections()].length || this.state.expiresAt > Date.now()) return json({ swept: false });
+      await this.#purge();
+      return json({ swept: true });
+    }
+    return json({ error: "Not found" }, 404);
+  }
+
+  #adminSummary(): AgentSummary {
+    const [totals] = this.sql<{ n: number; last: number | null; prompt: number | null; completion: number | null }>`
+      SELECT COUNT(*) AS n, MAX(ts) AS last, SUM(prompt_tokens) AS prompt, SUM(completion_tokens) AS completion FROM messages`;
+    const tools: ToolUsage = {};
+    const runs = this.sql<{ tool: string | null; runs: number; errors: number }>`
+      SELECT json_extract(content, '$.tool') AS tool, COUNT(*) AS runs,
+             SUM(CASE WHEN json_extract(content, '$.result.ok') = 1 THEN 0 ELSE 1 END) AS errors
+      FROM messages WHERE role = 'tool' AND json_valid(content) GROUP BY tool`;
+    for (const r of runs) tools[r.tool ?? "unknown"] = { runs: r.runs, errors: r.errors };
+    return {
+      sessionId: this.name,
+      model: this.#model().id,
+      createdAt: this.state.createdAt,
+      expiresAt: this.state.expiresAt,
+      expiredAt: this.state.expiredAt ?? null,
+      lastActivity: totals?.last ?? null,
+      messages: totals?.n ?? 0,
+      tools,
+      tokens: { prompt: totals?.prompt ?? 0, completion: totals?.completion ?? 0 },
+    };
+  }
+
+  /**
+   * Operator delete (admin.ts removes the R2 files and KV marker): drop rows,
+   * webhooks, schedules and MCP connections, then disconnect clients. A client
+   * that comes back with its token finds an expired, empty session.
+   */
+  async #purge() {
+    this.#inflight?.abort();
+    for (const s of this.getSchedules()) await this.cancelSchedule(s.id);
+    for (const s of this.state.mcpServers ?? []) await this.removeMcpServer(s.id).catch(() => { /* already gone */ });
+    void this.sql`DELETE FROM messages`;
+    void this.sql`DELETE FROM memory`;
+    void this.sql`DELETE FROM webhooks`;
+    void this.sql`DELETE FROM webhook_deliveries`;
+    void this.sql`DELETE FROM tool_metrics`;
+
+    const now = Date.now();
+    this.setState({ model: DEFAULT_MODEL, messages: [], leafId: null, createdAt: now, expiresAt: now, expiredAt: now });
+    this.#broadcast(null, { type: "expired", expiredAt: now });
+    for (const conn of this.getConnections()) conn.close(4000, "Session deleted");
+    console.log("[agent] session purged", { name: this.name });
+  }
+
+  // ---------------------- Webhooks ------------------------------------------
+
+  /**
+   * Forwarded /api/sessions/:sid/webhooks/… (`rest` = path after "webhooks"):
+   *   GET    …/webhooks                        → subscriptions
+   *   POST   …/webhooks {url, events?, secret?} → 201 subscription + its secret (shown once)
+   *   DELETE …/webhooks/:id                    → unsubscribe (pending deliveries are dropped)
+   *   GET    …/webhooks/deliveries?webhookId&status&limit → delivery log, newest first
+   *   POST   …/webhooks/deliveries/:id/retry  → queue a failed delivery again
+   */
+  async #webhooksApi(request: Request, rest: string[]): Promise<Response> {
+    const m = request.method;
+    if (!rest.length && m === "GET") {
+      const rows = this.sql<WebhookRow>`SELECT id, url, events, secret, origin, created_at FROM webhooks ORDER BY created_at ASC`;
+      return json({ webhooks: rows.map(toWebhook) });
+    }
+
+    if (!rest.length && m === "POST") {
+      let raw: unknown = null;
+      try { raw = await request.json(); } catch { /* ignore */ }
+      const checked = parseWebhook(raw);
+      if (!checked.ok) return json({ error: checked.error }, 400);
+      const row: WebhookRow = {
+        id: crypto.randomUUID(),
+        url: checked.url,
+        events: JSON.stringify(checked.events),
+        secret: checked.secret ?? webhookSecret(),
+        origin: new URL(request.url).origin,
+        created_at: Date.now(),
+      };
+      void this.sql`
+        INSERT INTO webhooks (id, url, events, secret, origin, created_at)
+        VALUES (${row.id}, ${row.url}, ${row.events}, ${row.secret}, ${row.origin}, ${row.created_at})`;
+      console.log("[webhooks] subscribed", { id: row.id, events: checked.events });
+      return json({ webhook: toWebhook(row), secret: row.secret }, 201);
+    }
+
+    if (rest.length === 1 && rest[0] !== "deliveries" && m === "DELETE") {
+      const [row] = this.sql<{ id: string }>`SELECT id FROM webhooks WHERE id = ${rest[0]!}`;
+      if (!row) return json({ error: "Not found" }, 404);
+      void this.sql`DELETE FROM webhooks WHERE id = ${row.id}`;
+      void this.sql`
+        UPDATE webhook_deliveries SET status = 'failed', error = 'Subscription deleted', next_attempt_at = NULL
+        WHERE webhook_id = ${row.id} AND status = 'pending'`;
+      console.log("[webhooks] unsubscribed", { id: row.id });
+      return json({ deleted: 1 });
+    }
+
+    if (rest.length === 1 && rest[0] === "deliveries" && m === "GET") {
+      const q = new URL(request.url).searchParams;
+      const limit = Math.min(200, Math.max(1, Number(q.get("limit")) || 50));
+      const webhookId = q.get("webhookId");
+      const status = q.get("status");
+      const rows = this.sql<DeliveryRow>`
+        SELECT id, webhook_id, event, payload, status, attempts, response_status, error, created_at, next_attempt_at, delivered_at
+        FROM webhook_deliveries
+        WHERE (${webhookId} IS NULL OR webhook_id = ${webhookId}) AND (${status} IS NULL OR status = ${status})
+        ORDER BY created_at DESC LIMIT ${limit}`;
+      return json({ deliveries: rows.map(toDelivery) });
+    }
+
+    if (rest.length === 3 && rest[0] === "deliveries" && rest[2] === "retry" && m === "POST") {
+      const [row] = this.sql<{ status: DeliveryStatus; webhook_id: string }>`
+        SELECT status, webhook_id FROM webhook_deliveries WHERE id = ${rest[1]!}`;
+      if (!row) return json({ error: "Not found" }, 404);
+      if (row.status !== "failed") return json({ error: `Delivery is ${row.status}` }, 409);
+      if (!this.sql`SELECT id FROM webhooks WHERE id = ${row.webhook_id}`.length) return json({ error: "Subscription deleted" }, 409);
+      void this.sql`
+        UPDATE webhook_deliveries SET status = 'pending', attempts = 0, error = NULL, next_attempt_at = ${Date.now()}
+        WHERE id = ${rest[1]!}`;
+      await this.schedule(0, "deliverWebhook", rest[1]!);
+      return json({ queued: 1 });
+    }
+
+    return json({ error: "Not found" }, 404);
+  }
+
+  /** Log `event` for every subscription that wants it and queue its first attempt */
+  async #webhook(event: WebhookEvent, data: WebhookPayload["data"]) {
+    try {
+      const subs = this.sql<{ id: string; events: string }>`SELECT id, events FROM webhooks`
+        .filter((s) => (JSON.parse(s.events) as WebhookEvent[]).includes(event));
+      if (!subs.length) return;
+      const now = Date.now();
+      void this.sql`
+        DELETE FROM webhook_deliveries
+        WHERE status != 'pending' AND created_at < ${now - DELIVERY_LOG_DAYS * 86_400_000}`;
+      for (const s of subs) {
+        const payload: WebhookPayload = { id: crypto.randomUUID(), event, sessionId: this.name, createdAt: now, data };
+        void this.sql`
+          INSERT INTO webhook_deliveries (id, webhook_id, event, payload, status, attempts, created_at, next_attempt_at)
+          VALUES (${payload.id}, ${s.id}, ${event}, ${JSON.stringify(payload)}, 'pending', 0, ${now}, ${now})`;
+        await this.schedule(0, "deliverWebhook", payload.id);
       }
     } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      console.log("[agent] stream error:", msg);
-      full = full || "_(stream error)_";
-    } finally {
-      conn.send(JSON.stringify({ type: "done" }));
+      console.log("[webhooks] enqueue failed:", e instanceof Error ? e.message : String(e));
+    }
+  }
+
+  /**
+   * Schedule callback: one attempt at a pending delivery. Failures are retried
+   * with backoff (webhooks.ts) until MAX_WEBHOOK_ATTEMPTS, then marked failed.
+   */
+  async deliverWebhook(deliveryId: string) {
+    await this.#schema();
+    const [d] = this.sql<DeliveryRow & { url: string | null; secret: string | null; origin: string | null }>`
+      SELECT d.id, d.payload, d.status, d.attempts, w.url, w.secret, w.origin
+      FROM webhook_deliveries d LEFT JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.id = ${deliveryId}`;
+    if (!d || d.status !== "pending") return;
+    if (!d.url || !d.secret || !d.origin) {
+      void this.sql`UPDATE webhook_deliveries SET status = 'failed', error = 'Subscription deleted', next_attempt_at = NULL WHERE id = ${d.id}`;
+      return;
     }
 
-    await this.#saveAssistant(conn, full);
+    const payload = await withFreshLink(this.env, JSON.parse(d.payload) as WebhookPayload, d.origin, this.state.createdAt);
+    const sent = await sendWebhook(d.url, d.secret, payload);
+    const attempts = d.attempts + 1;
+    if (sent.ok) {
+      void this.sql`
+        UPDATE webhook_deliveries
+        SET status = 'delivered', attempts = ${attempts}, response_status = ${sent.status}, error = NULL,
+            next_attempt_at = NULL, delivered_at = ${Date.now()}
+        WHERE id = ${d.id}`;
+      return;
+    }
+
+    const delay = retryDelaySeconds(attempts);
+    const next = delay === null ? null : Date.now() + delay * 1000;
+    void this.sql`
+      UPDATE webhook_deliveries
+      SET status = ${delay === null ? "failed" : "pending"}, attempts = ${attempts}, response_status = ${sent.status},
+          error = ${sent.error}, next_attempt_at = ${next}
+      WHERE id = ${d.id}`;
+    console.log("[webhooks] attempt failed", { id: d.id, attempts, error: sent.error, retryIn: delay });
+    if (delay !== null) await this.schedule(delay, "deliverWebhook", d.id);
   }
 
-    // ---------------------- Post-tool agentic summary -------------------------
-    async #streamSummary(conn: Connection, userText: string, result: WeatherResult) {
-      if (!result.ok) {
-        await this.#saveAssistant(conn, `I couldn't summarize the weather: ${result.error}`);
-        return;
-      }
-  
-      const days = result.daily.slice(0, Math.min(7, result.daily.length));
-      if (!days.length) {
-        await this.#saveAssistant(conn, "I couldn't find a daily forecast for that range.");
-        return;
-      }
-  
-      // Compute weekly high/low + wettest day by precip probability
-      let weeklyHigh = Number.NEGATIVE_INFINITY;
-      let weeklyLow  = Number.POSITIVE_INFINITY;
-      let maxPop = -1;
-      let wetIdx = -1;
-  
-      for (let i = 0; i < days.length; i++) {
-        const d = days[i];
-        if (Number.isFinite(d.tMax) && d.tMax > weeklyHigh) weeklyHigh = d.tMax;
-        if (Number.isFinite(d.tMin) && d.tMin < weeklyLow)  weeklyLow  = d.tMin;
-        if (Number.isFinite(d.pop)  && d.pop  > maxPop) { maxPop = d.pop; wetIdx = i; }
-      }
-  
-      const hi = Number.isFinite(weeklyHigh) ? Math.round(weeklyHigh) : null;
-      const lo = Number.isFinite(weeklyLow)  ? Math.round(weeklyLow)  : null;
-      const pop = maxPop >= 0 ? Math.round(maxPop) : null;
-  
-      const unitT = result.units.temp; // "°C" | "°F"
-      const placeName = [result.place.name, result.place.region, result.place.country].filter(Boolean).join(", ");
-  
-      const wetISO = wetIdx >= 0 ? days[wetIdx].date : "";
-      const wetPretty =
-        wetISO
-          ? new Date(wetISO + "T00:00:00").toLocaleDateString("en-US", {
-              weekday: "long",
-              month: "long",
-              day: "numeric",
-            })
-          : null;
-  
-      // Build a short, actionable summary with guaranteed numbers
-      const parts: string[] = [];
-  
-      // Line 1: Overall temps
-      if (hi !== null && lo !== null) {
-        parts.push(`Next week in ${placeName}, expect highs around ${hi}${unitT} and lows near ${lo}${unitT}.`);
-      } else if (hi !== null) {
-        parts.push(`Next week in ${placeName}, expect highs around ${hi}${unitT}.`);
-      } else if (lo !== null) {
-        parts.push(`Next week in ${placeName}, expect lows near ${lo}${unitT}.`);
-      } else {
-        parts.push(`Next week in ${placeName}, temperatures vary through the week.`);
-      }
-  
-      // Line 2: Precipitation / wettest day
-      if (pop !== null && pop > 0) {
-        parts.push(
-          wetPretty
-            ? `Peak chance of precipitation is about ${pop}% on ${wetPretty}.`
-            : `Peak chance of precipitation is about ${pop}%.`
-        );
-      } else {
-        parts.push(`Rain risk looks low overall.`);
-      }
-  
-      // Line 3: Packing note
-      if (hi !== null && lo !== null) {
-        const range = hi - lo;
-        if (pop !== null && pop >= 40) {
-          parts.push(`Pack layers and bring a small umbrella or rain jacket just in case.`);
-        } else if (range >= 10) {
-          parts.push(`Pack layers (mornings/evenings cooler than afternoons).`);
-        } else {
-          parts.push(`Light layers should be fine for most of the week.`);
-        }
-      } else {
-        parts.push(`Pack flexible layers to handle changes through the week.`);
-      }
-  
-      const summary = parts.join(" ");
-  
-      // Stream as one message for simplicity
-      conn.send(JSON.stringify({ type: "delta", text: summary }));
-      conn.send(JSON.stringify({ type: "done" }));
-      await this.#saveAssistant(conn, summary);
-    }
-  
-
-  
-
-  // ---------------------- Planning / Tool selection -------------------------
-
-  async #tryPlanTool(history: ChatMessage[], userText: string): Promise<{ tool: "getWeather"; args: WeatherArgs } | null> {
-    const system =
-      SYSTEM_BEHAVIOR +
-      "\n\nPlanner instructions: Return a tool call ONLY when the user explicitly requests a weather forecast with a concrete location/timeframe. " +
-      "Otherwise, do not return any tool call.";
-
-    const messages: ChatMessage[] = [
-      { role: "system", content: system },
-      ...history,
-      { role: "user", content: userText },
-    ];
-
-    // Build the planning payload as a *variable* (not an object literal) so
-    // we can carry extra fields without triggering excess-property checks.
-    const plannerInput: { messages: ChatMessage[] } & Record<string, unknown> = { messages };
-    plannerInput.tools = [getWeatherToolSchema];
-    plannerInput.temperature = 0.2;
-    plannerInput.max_tokens = 200;
+  // ---------------------- Retention -----------------------------------------
 
-    try {
-      const out = await this.env.AI.run(this.state.model || DEFAULT_MODEL, plannerInput);
-      const obj = isRecord(out) ? (out as unknown as AiPlanResponse) : undefined;
-      const calls = obj?.tool_calls;
-      if (!Array.isArray(calls) || !calls.length) return null;
+  /**
+   * Client activity: push expiry out by the retention window and make sure the
+   * expiry alarm is armed. Scheduled task runs don't count, so an abandoned
+   * session with a recurring task still expires.
+   */
+  async #touch() {
+    this.setState({ ...this.state, expiresAt: Date.now() + sessionTtlSeconds(this.env) * 1000, expiredAt: null });
+    await this.#armExpiry();
+  }
 
-      const call = calls[0];
-      const fn = call?.function?.name;
-      if (fn !== "getWeather") return null;
+  /**
+   * Arm the expiry alarm for the stored deadline (last activity + TTL) unless
+   * one is pending. Also runs at startup, so sessions from before this alarm
+   * existed expire on the same policy without needing another visit; a
+   * deadline already past fires right away.
+   */
+  async #armExpiry() {
+    if (this.getSchedules().some((s) => s.callback === "expireSession")) return;
+    await this.schedule(new Date(Math.max(this.state.expiresAt, Date.now())), "expireSession");
+  }
 
-      const parsedArgs = this.#parseToolArgs(call?.function?.arguments);
-      return { tool: "getWeather", args: parsedArgs };
-    } catch (e) {
-      console.log("[agent] planner error:", e instanceof Error ? e.message : String(e));
+  /** Retention alarm: wipe the session once idle past expiresAt, otherwise re-arm for the new deadline */
+  async expireSession() {
+    if (Date.now() < this.state.expiresAt) {
+      await this.schedule(new Date(this.state.expiresAt), "expireSession");
+      return;
+    }
+    await this.#expire();
+  }
+
+  /** Delete messages, memory, webhook deliveries, tool timings, scheduled tasks and R2 files; clients get an `expired` frame */
+  async #expire() {
+    await this.#schema();
+    this.#inflight?.abort();
+    await this.sql`DELETE FROM messages`;
+    await this.sql`DELETE FROM memory`;
+    await this.sql`DELETE FROM webhook_deliveries`; // payloads quote the conversation; subscriptions stay
+    await this.sql`DELETE FROM tool_metrics`;
+    for (const t of this.#listTasks()) await this.cancelSchedule(t.id);
+    const files = await purgeSessionFiles(this.env, this.name).catch((e) => {
+      console.log("[agent] file purge error:", e instanceof Error ? e.message : String(e));
+      return 0;
+    });
+
+    const now = Date.now();
+    this.setState({
+      model: this.#model().id,
+      fallbacks: this.state.fallbacks,
+      settings: this.state.settings,
+      mcpServers: this.state.mcpServers,
+      messages: [],
+      leafId: null,
+      createdAt: now,
+      expiresAt: now + sessionTtlSeconds(this.env) * 1000,
+      expiredAt: now,
+    });
+    this.#broadcast(null, { type: "expired", expiredAt: now });
+    console.log("[agent] session expired", { name: this.name, files });
+  }
+
+  // ---------------------- Model step (answer or tool call) ----------------
+
+  /**
+   * One model call over `turn`, with tools offered when the model supports them.
+   * `live`: stream text to clients and save it as an assistant row (the answer);
+   * otherwise text is dropped and only a tool call matters.
+   * Returns the first registered tool the model called, or null when the turn is over.
+   */
+  async #generate(
+    conn: Origin | null,
+    turn: ChatMessage[],
+    signal: AbortSignal,
+    opts: { live: boolean; tools?: boolean }
+  ): Promise<PlannedCall | null> {
+    const offerTools = opts.tools !== false && this.#model().tools;
+    const settings = this.state.settings ?? {};
+    const remote = offerTools ? this.#remoteTools() : [];
+    const base = composeSystemPrompt(SYSTEM_BEHAVIOR, settings);
+    const system = offerTools ? `${base}\n\n${toolInstructions(remote.length > 0)}` : base;
+
+    const run = await runWithFallback(
+      this.env.AI,
+      this.#modelChain(offerTools),
+      (m) => ({
+        messages: [{ role: "system", content: system }, ...turn],
+        tools: offerTools ? [...toolSchemas(), ...remote.map((t) => t.schema)] : undefined,
+        stream: opts.live && m.streaming,
+        temperature: opts.live ? settings.temperature ?? m.temperature : 0.2,
+        max_tokens: opts.live ? settings.maxTokens : 300,
+      }),
+      signal
+    );
+    if (!run.ok) {
+      console.log("[agent] model unavailable:", run.error, run.tried);
+      if (opts.live) {
+        await this.#say(conn, signal.aborted
+          ? "_(stopped)_"
+          : `Sorry — no model could answer right now (tried ${run.tried.length}). Please try again in a moment.`);
+      }
       return null;
     }
+
+    const out = await readAIOutput(
+      run.out,
+      opts.live ? (t) => this.#broadcast(conn, { type: "delta", text: t }) : undefined,
+      signal
+    );
+    if (out.usage) console.log("[agent] usage", { model: run.model.id, ...out.usage });
+    if (out.error) console.log("[agent] stream error:", out.error);
+    const planned = this.#firstToolCall(out.toolCalls);
+    if (!opts.live) return planned;
+
+    let text = out.text.trim() ? out.text : "";
+    if (out.error && !planned) text = text || "_(stream error)_";
+    // keep whatever streamed before a cancel, marked as partial
+    if (signal.aborted) text = text ? `${text} _(stopped)_` : "_(stopped)_";
+
+    if (text) {
+      this.#broadcast(conn, { type: "done" });
+      await this.#saveAssistant(conn, text, { model: run.model.id, usage: out.usage });
+      return signal.aborted ? null : planned;
+    }
+    if (planned) return planned;
+
+    // Neither text nor a usable tool call: ask again for a plain answer
+    if (offerTools) return this.#generate(conn, turn, signal, { live: true, tools: false });
+    await this.#say(conn, "[no response]");
+    return null;
   }
 
-  #parseToolArgs(raw: unknown): WeatherArgs {
-    if (isRecord(raw)) return raw as WeatherArgs;
+  /** First call in `calls` that names a registered tool */
+  #firstToolCall(calls: AIToolCall[]): PlannedCall | null {
+    for (const call of calls) {
+      const tool = getToolByFunction(call.function.name) ?? this.#remoteTools().find((t) => t.schema.function.name === call.function.name);
+      if (tool) return { tool, args: this.#parseToolArgs(call.function.arguments), callId: call.id };
+    }
+    return null;
+  }
+
+  #parseToolArgs(raw: unknown): Record<string, unknown> {
+    if (isRecord(raw)) return raw;
     if (typeof raw === "string") {
       try {
         const j = JSON.parse(raw);
-        if (isRecord(j)) return j as WeatherArgs;
+        if (isRecord(j)) return j;
       } catch { /* ignore */ }
     }
     return {};
   }
 
+  // ---------------------- Memory / history --------------------------------
+
+  /**
+   * Model history for the active branch within the model's token budget.
+   * When rows overflow it, the oldest ones are folded into a persisted memory
+   * record (keyed by the last row it covers, so every branch sharing that
+   * prefix reuses it) and the newest half-budget of rows is kept verbatim.
+   */
+  async #history(): Promise<ChatMessage[]> {
+    const model = this.#model().id;
+    const path = this.state.messages;
+
+    // Latest memory record that lies on this branch
+    const records = new Map(
+      (await this.sql<{ upto_id: number; summary: string }>`SELECT upto_id, summary FROM memory`).map((r) => [r.upto_id, r.summary])
+    );
+    let memory = "";
+    let start = 0;
+    for (let i = path.length - 1; i >= 0; i--) {
+      const summary = records.get(path[i].id);
+      if (summary !== undefined) { memory = summary; start = i + 1; break; }
+    }
+
+    const rows = path.slice(start);
+    let tail = rows.map(toModelMessage);
+    const budget = historyBudget(model);
+    const cost = (list: ChatMessage[]) => list.reduce((n, m) => n + estimateTokens(m.content), 0);
+
+    if (estimateTokens(memory) + cost(tail) > budget) {
+      // Keep the newest rows that fit half the budget (always at least the prompt)
+      let keepFrom = tail.length - 1;
+      let used = estimateTokens(tail[keepFrom]?.content ?? "");
+      while (keepFrom > 0 && used + estimateTokens(tail[keepFrom - 1].content) <= budget / 2) {
+        keepFrom--;
+        used += estimateTokens(tail[keepFrom].content);
+      }
+
+      const folded = tail.slice(0, keepFrom);
+      if (folded.length) {
+        const summary = await summarizeMemory(this.env, model, memory, folded);
+        if (summary) {
+          const uptoId = rows[keepFrom - 1].id;
+          await this.sql`INSERT OR REPLACE INTO memory (upto_id, summary, ts) VALUES (${uptoId}, ${summary}, ${Date.now()})`;
+          memory = summary;
+          console.log("[agent] memory compacted", { uptoId, folded: folded.length });
+        }
+      }
+      tail = tail.slice(keepFrom);
+    }
+
+    return memory ? [memoryMessage(memory), ...tail] : tail;
+  }
+
+  // ---------------------- Outbound frames -----------------------------------
+
+  /** Send a frame to every connection on this session, tagged with its originating connection */
+  #broadcast(origin: Origin | null, frame: Outbound) {
+    const tagged = { ...frame, origin: origin?.id ?? null };
+    this.broadcast(JSON.stringify(tagged));
+    for (const tap of this.#taps) tap(tagged);
+  }
+
+  /** Tool progress to clients; finished runs also go to webhook subscribers */
+  #emitTool(origin: Origin | null, evt: ToolEvent) {
+    this.#broadcast(origin, evt);
+    if (evt.status === "done" || evt.status === "error") void this.#webhook(`tool.${evt.status}`, evt);
+  }
+
+  /** One complete assistant line: delta + done, then persisted */
+  async #say(origin: Origin | null, text: string) {
+    this.#broadcast(origin, { type: "delta", text });
+    this.#broadcast(origin, { type: "done" });
+    await this.#saveAssistant(origin, text);
+  }
+
   // ---------------------- Persistence helpers -------------------------------
 
-  async #saveAssistant(_conn: Connection, text: string) {
+  /** `meta`: the model call that wrote `text` (omitted for canned lines) */
+  async #saveAssistant(_origin: Origin | null, text: string, meta: RowMeta = {}) {
+    const msg = await this.#insert("assistant", text, meta);
+    await this.#webhook("assistant.message", { messageId: msg.id, text, model: msg.model ?? null });
+  }
+
+  /** Append a row under the current leaf and make it the new leaf */
+  async #insert(role: Msg["role"], content: string, meta: RowMeta = {}): Promise<Msg> {
     const ts = Date.now();
-    await this.sql`INSERT INTO messages (role, content, ts) VALUES ('assistant', ${text}, ${ts})`;
+    const parentId = this.state.leafId ?? null;
+    const model = meta.model ?? null;
+    const [row] = await this.sql<{ id: number }>`
+      INSERT INTO messages (role, content, ts, parent_id, model, prompt_tokens, completion_tokens)
+      VALUES (${role}, ${content}, ${ts}, ${parentId}, ${model},
+              ${meta.usage?.promptTokens ?? null}, ${meta.usage?.completionTokens ?? null}) RETURNING id`;
+    const msg: Msg = { id: row.id, parentId, role, content, ts, model };
+    this.setState({
+      ...this.state,
+      leafId: msg.id,
+      messages: [...this.state.messages, msg],
+    });
+    return msg;
+  }
+
+  /** Point the active branch at `leafId` and mirror root → leaf into state */
+  #setLeaf(leafId: number | null) {
+    const rows = this.sql<MsgRow>`SELECT id, parent_id, role, content, ts, model FROM messages ORDER BY id ASC`;
+    const byId = new Map(rows.map((r) => [r.id, r]));
+    const children = new Map<number | null, number[]>();
+    for (const r of rows) {
+      const list = children.get(r.parent_id) ?? [];
+      list.push(r.id);
+      children.set(r.parent_id, list);
+    }
+
+    const path: Msg[] = [];
+    for (let cur = leafId === null ? undefined : byId.get(leafId); cur; cur = cur.parent_id === null ? undefined : byId.get(cur.parent_id)) {
+      path.push({
+        id: cur.id,
+        parentId: cur.parent_id,
+        role: cur.role,
+        content: cur.content,
+        ts: cur.ts,
+        model: cur.model,
+        siblings: children.get(cur.parent_id) ?? [cur.id],
+      });
+    }
     this.setState({
       ...this.state,
-      messages: [...this.state.messages, { role: "assistant", content: text, ts }],
-      expiresAt: Date.now() + DAY,
+      leafId: path.length ? leafId : null,
+      messages: path.reverse(),
     });
   }
 
+  /** Active branch as sent to clients: artifact links in tool rows freshly signed */
+  async #clientMessages(): Promise<Msg[]> {
+    return Promise.all(
+      this.state.messages.map(async (m) => (m.role === "tool" ? { ...m, content: await resignToolRow(this.env, m.content) } : m))
+    );
+  }
+
+  /** Newest tip below `id` (follows the latest child at each fork) */
+  async #tipOf(id: number): Promise<number> {
+    let cur = id;
+    for (;;) {
+      const [child] = await this.sql<{ id: number | null }>`SELECT MAX(id) AS id FROM messages WHERE parent_id = ${cur}`;
+      if (child?.id == null) return cur;
+      cur = child.id;
+    }
+  }
+
+  /** The user message a regenerate targets: `id` itself or its nearest user ancestor */
+  #promptFor(id: number): MsgRow | null {
+    let [row] = this.sql<MsgRow>`SELECT id, parent_id, role, content, ts, model FROM messages WHERE id = ${id}`;
+    while (row && row.role !== "user") {
+      if (row.parent_id === null) return null;
+      [row] = this.sql<MsgRow>`SELECT id, parent_id, role, content, ts, model FROM messages WHERE id = ${row.parent_id}`;
+    }
+    return row ?? null;
+  }
+
+  /** Run pending schema migrations and arm the expiry alarm (once per Durable Object instance) */
   async #schema() {
-    await this.sql`
-      CREATE TABLE IF NOT EXISTS messages (
-        id INTEGER PRIMARY KEY,
-        role    TEXT    NOT NULL,
-        content TEXT    NOT NULL,
-        ts      INTEGER NOT NULL
-      )`;
+    if (this.#schemaVersion) return;
+    this.#schemaVersion = migrate((fn) => this.ctx.storage.transactionSync(fn), this.sql.bind(this));
+    await this.#armExpiry();
   }
+
 }
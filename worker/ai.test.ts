@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { readAIOutput } from "./ai";
+
+/** A Workers AI SSE response made of the given `data:` chunks */
+function sse(...chunks: unknown[]): ReadableStream<Uint8Array> {
+  const body = [...chunks.map((c) => `data: ${JSON.stringify(c)}\n\n`), "data: [DONE]\n\n"].join("");
+  const bytes = new TextEncoder().encode(body);
+  return new ReadableStream({
+    start(controller) {
+      // split mid-line so the reader has to buffer across reads
+      controller.enqueue(bytes.slice(0, 37));
+      controller.enqueue(bytes.slice(37));
+      controller.close();
+    },
+  });
+}
+
+describe("readAIOutput", () => {
+  it("merges streamed native tool call fragments by index", async () => {
+    const out = await readAIOutput(
+      sse(
+        { response: "", tool_calls: [{ index: 0, id: "call_1", name: "getWeather", arguments: "" }] },
+        { response: "", tool_calls: [{ index: 0, arguments: '{"location":' }] },
+        { response: "", tool_calls: [{ index: 0, arguments: '"Montreal"}' }] },
+        { response: "", usage: { prompt_tokens: 12, completion_tokens: 8, total_tokens: 20 } }
+      )
+    );
+
+    expect(out.toolCalls).toEqual([
+      { id: "call_1", type: "function", function: { name: "getWeather", arguments: '{"location":"Montreal"}' } },
+    ]);
+    expect(out.usage).toEqual({ promptTokens: 12, completionTokens: 8, totalTokens: 20 });
+    expect(out.error).toBeUndefined();
+  });
+
+  it("merges OpenAI-style delta tool calls, keeping parallel calls apart", async () => {
+    const out = await readAIOutput(
+      sse(
+        { choices: [{ delta: { content: "Checking " } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, id: "a", function: { name: "getWeather", arguments: '{"loc' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 1, id: "b", function: { name: "captureScreenshot", arguments: "" } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: 'ation":"Laval"}' } }] } }] },
+        { choices: [{ delta: { tool_calls: [{ index: 1, function: { arguments: '{"url":"https://example.com"}' } }] } }] }
+      )
+    );
+
+    expect(out.text).toBe("Checking ");
+    expect(out.toolCalls.map((c) => [c.id, c.function.name, c.function.arguments])).toEqual([
+      ["a", "getWeather", '{"location":"Laval"}'],
+      ["b", "captureScreenshot", '{"url":"https://example.com"}'],
+    ]);
+  });
+
+  it("keeps whole native tool calls of a JSON response as they are", async () => {
+    const out = await readAIOutput({
+      response: null,
+      tool_calls: [
+        { name: "getWeather", arguments: { location: "Montreal" } },
+        { name: "convertToPdf", arguments: { url: "https://example.com" } },
+      ],
+    });
+
+    expect(out.toolCalls.map((c) => [c.function.name, JSON.parse(c.function.arguments)])).toEqual([
+      ["getWeather", { location: "Montreal" }],
+      ["convertToPdf", { url: "https://example.com" }],
+    ]);
+  });
+});
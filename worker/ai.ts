@@ -1,49 +1,243 @@
 /// <reference lib="webworker" />
-import type { AIBinding, ChatMessage } from "../worker-configuration";
+import type { AIBinding, AIToolCall } from "../worker-configuration";
+import type { ModelInfo } from "./models";
 
-/** Stream Workers AI SSE, emitting deltas and returning the final text. */
-export async function streamAI(
+/**
+ * One reader for every Workers AI output shape: SSE streams and plain JSON,
+ * native (`response`, `tool_calls`) and OpenAI-style (`choices[].delta`,
+ * `choices[].message`), text, tool calls (whole or streamed in fragments)
+ * and usage.
+ */
+
+export type AIUsage = { promptTokens: number; completionTokens: number; totalTokens: number };
+
+export type AIOutput = {
+  text: string;
+  toolCalls: AIToolCall[];
+  usage?: AIUsage;
+  error?: string; // stream broke off; `text` holds what arrived before
+};
+
+/** Raw tool call as models send it: native (`{name, arguments}`) or OpenAI (`{index, id, function}`) */
+type RawToolCall = {
+  index?: number;
+  id?: string;
+  name?: string;
+  arguments?: unknown;
+  function?: { name?: string; arguments?: unknown };
+};
+
+type RawChunk = {
+  response?: unknown;
+  tool_calls?: RawToolCall[];
+  delta?: { content?: string | null; tool_calls?: RawToolCall[] };
+  choices?: Array<{
+    delta?: { content?: string | null; tool_calls?: RawToolCall[] };
+    message?: { content?: string | null; tool_calls?: RawToolCall[] };
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+};
+
+export function isReadableStream(x: unknown): x is ReadableStream<Uint8Array> {
+  return typeof x === "object" && x !== null &&
+    typeof (x as ReadableStream<Uint8Array>).getReader === "function";
+}
+
+/** Accumulates text, tool-call fragments and usage across chunks */
+class OutputBuilder {
+  text = "";
+  usage?: AIUsage;
+  #calls = new Map<number, { id?: string; name: string; args: string }>();
+  #onDelta?: (t: string) => void;
+
+  constructor(onDelta?: (t: string) => void) {
+    this.#onDelta = onDelta;
+  }
+
+  addText(t: string) {
+    if (!t) return;
+    this.text += t;
+    this.#onDelta?.(t);
+  }
+
+  /**
+   * `streamed` = fragments of a streamed call, native or OpenAI delta (merge by
+   * index, concatenate argument strings); otherwise each entry is a complete call.
+   */
+  addCalls(calls: RawToolCall[], streamed: boolean) {
+    calls.forEach((c, i) => {
+      const name = c.function?.name ?? c.name ?? "";
+      const raw = c.function?.arguments ?? c.arguments;
+      const args = typeof raw === "string" ? raw : raw === undefined ? "" : JSON.stringify(raw);
+      if (!streamed) {
+        this.#calls.set(this.#calls.size, { id: c.id, name, args });
+        return;
+      }
+      const key = c.index ?? i;
+      const cur = this.#calls.get(key) ?? { name: "", args: "" };
+      this.#calls.set(key, { id: cur.id ?? c.id, name: cur.name || name, args: cur.args + args });
+    });
+  }
+
+  addUsage(u: RawChunk["usage"]) {
+    if (!u) return;
+    const promptTokens = u.prompt_tokens ?? 0;
+    const completionTokens = u.completion_tokens ?? 0;
+    this.usage = { promptTokens, completionTokens, totalTokens: u.total_tokens ?? promptTokens + completionTokens };
+  }
+
+  /** One parsed JSON object (a stream chunk or a whole response) */
+  add(chunk: RawChunk, streamed: boolean) {
+    if (typeof chunk.response === "string") this.addText(chunk.response);
+    else if (chunk.response && typeof chunk.response === "object") this.addText(JSON.stringify(chunk.response));
+    // Streamed native calls arrive as `index`-keyed fragments; un-indexed entries are whole calls
+    if (Array.isArray(chunk.tool_calls)) {
+      this.addCalls(chunk.tool_calls, streamed && chunk.tool_calls.some((c) => c.index !== undefined));
+    }
+    if (typeof chunk.delta?.content === "string") this.addText(chunk.delta.content);
+    if (Array.isArray(chunk.delta?.tool_calls)) this.addCalls(chunk.delta.tool_calls, streamed);
+    for (const choice of chunk.choices ?? []) {
+      const part = choice.delta ?? choice.message;
+      if (typeof part?.content === "string") this.addText(part.content);
+      if (Array.isArray(part?.tool_calls)) this.addCalls(part.tool_calls, streamed && !!choice.delta);
+    }
+    this.addUsage(chunk.usage);
+  }
+
+  build(error?: string): AIOutput {
+    const toolCalls: AIToolCall[] = [...this.#calls.values()]
+      .filter((c) => c.name)
+      .map((c) => ({ id: c.id || crypto.randomUUID(), type: "function", function: { name: c.name, arguments: c.args || "{}" } }));
+    return { text: this.text, toolCalls, usage: this.usage, error };
+  }
+}
+
+/**
+ * Read a Workers AI result (stream or not). `onDelta` gets each text piece as
+ * it arrives; aborting `signal` cancels the stream and returns what was read.
+ * Never throws: a broken stream comes back with `error` set.
+ */
+export async function readAIOutput(
+  out: unknown,
+  onDelta?: (t: string) => void,
+  signal?: AbortSignal
+): Promise<AIOutput> {
+  const b = new OutputBuilder(onDelta);
+
+  if (!isReadableStream(out)) {
+    if (typeof out === "string") b.addText(out);
+    else if (out && typeof out === "object") b.add(out as RawChunk, false);
+    return b.build();
+  }
+
+  const reader = out.getReader();
+  const decoder = new TextDecoder();
+  // Stop button → cancel the reader; read() then resolves with done
+  const stop = () => { void reader.cancel().catch(() => {}); };
+  if (signal?.aborted) stop();
+  else signal?.addEventListener("abort", stop, { once: true });
+
+  let buffer = "";
+  const flush = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === "[DONE]") return;
+    try {
+      b.add(JSON.parse(payload) as RawChunk, true);
+    } catch {
+      b.addText(payload);
+    }
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.replace(/\r\n/g, "\n").split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(flush);
+    }
+    flush(buffer.trim());
+  } catch (e) {
+    return b.build(e instanceof Error ? e.message : String(e));
+  } finally {
+    signal?.removeEventListener("abort", stop);
+  }
+  return b.build();
+}
+
+/** Text of a non-streamed call (summaries, memory); "" when there is none */
+export async function aiText(out: unknown): Promise<string> {
+  return (await readAIOutput(out)).text.trim();
+}
+
+// ---------------------------------------------------------------------------
+// Fallback chain: retry a model with backoff on transient failures, then move
+// on to the next one. Non-transient errors skip straight to the next model.
+
+/** Attempts per model before moving down the chain */
+const ATTEMPTS_PER_MODEL = 2;
+/** First retry delay; doubles per attempt (plus jitter) */
+const BACKOFF_MS = 400;
+/** A call that hasn't returned (or started streaming) by then counts as failed */
+const CALL_TIMEOUT_MS = 30_000;
+
+export type AIInput = Parameters<AIBinding["run"]>[1];
+
+export type FallbackResult =
+  | { ok: true; out: unknown; model: ModelInfo; attempts: number }
+  | { ok: false; error: string; tried: string[] };
+
+/** Capacity, rate-limit, gateway and timeout failures are worth retrying */
+function isTransient(e: unknown): boolean {
+  const msg = e instanceof Error ? e.message : String(e);
+  return /timed? ?out|capacity|overload|rate.?limit|too many|temporar|unavailable|\b(429|500|502|503|504)\b|3040/i.test(msg);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const t = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => { clearTimeout(t); resolve(); }, { once: true });
+  });
+}
+
+function withTimeout<T>(p: Promise<T>, ms: number): Promise<T> {
+  let t: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    t = setTimeout(() => reject(new Error(`Workers AI call timed out after ${ms} ms`)), ms);
+  });
+  return Promise.race([p, timeout]).finally(() => clearTimeout(t));
+}
+
+/**
+ * Run `build(model)` on each model of `chain` in order until one succeeds.
+ * `model` in the result is the one that actually answered.
+ */
+export async function runWithFallback(
   AI: AIBinding,
-  model: string,
-  messages: ChatMessage[],
-  onDelta: (t: string) => void
-): Promise<string> {
-  const s = (await AI.run(model, { messages, stream: true })) as ReadableStream<Uint8Array>;
-  const reader = s.getReader();
-  const dec = new TextDecoder();
-  let buf = "", full = "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-    buf += dec.decode(value, { stream: true });
-
-    const lines = buf.split("\n");
-    buf = lines.pop() || "";
-    for (const raw of lines) {
-      const line = raw.trim();
-      if (!line.startsWith("data:")) continue;
-      const payload = line.slice(5).trim();
-      if (payload === "[DONE]") return full;
+  chain: ModelInfo[],
+  build: (model: ModelInfo) => AIInput,
+  signal?: AbortSignal
+): Promise<FallbackResult> {
+  const tried: string[] = [];
+  let lastError = "no model available";
 
+  for (const model of chain) {
+    tried.push(model.id);
+    for (let attempt = 1; attempt <= ATTEMPTS_PER_MODEL; attempt++) {
+      if (signal?.aborted) return { ok: false, error: "Cancelled", tried };
       try {
-        const j = JSON.parse(payload) as {
-          delta?: { content?: string };
-          response?: Array<{ content?: Array<{ text?: string }> }>;
-          output_text?: string;
-          text?: string;
-        };
-        const delta =
-          j.delta?.content ??
-          j.response?.[0]?.content?.[0]?.text ??
-          j.output_text ??
-          j.text ??
-          "";
-        if (delta) { onDelta(delta); full += delta; }
-      } catch {
-        onDelta(payload); full += payload;
+        const out = await withTimeout(AI.run(model.id, build(model)), CALL_TIMEOUT_MS);
+        if (tried.length > 1 || attempt > 1) console.log("[ai] answered after fallback", { model: model.id, attempt, tried });
+        return { ok: true, out, model, attempts: attempt };
+      } catch (e) {
+        lastError = e instanceof Error ? e.message : String(e);
+        console.log("[ai] call failed", { model: model.id, attempt, error: lastError });
+        if (!isTransient(e) || attempt === ATTEMPTS_PER_MODEL) break;
+        await sleep(BACKOFF_MS * 2 ** (attempt - 1) + Math.random() * 100, signal);
       }
     }
   }
-  return full;
+  return { ok: false, error: lastError, tried };
 }
@@ -0,0 +1,291 @@
+/// <reference lib="webworker" />
+import type { Env } from "../worker-configuration";
+import { authorizeSession, signHmac, verifyHmac } from "./session";
+
+/**
+ * Download links for tool artifacts (R2 `files/<sid>/<name>`).
+ *
+ * A link is `/files/<sid>/<name>?iat=<ms>&exp=<s>&sig=<HMAC("file:<key>:<iat>:<exp>")>`
+ * and only opens for the session that owns it (its cf_session token), before
+ * `exp`, and if it was issued after the session's last reset. Persisted tool
+ * results keep their old link; the agent re-signs them whenever it sends
+ * history to a client.
+ *
+ * Webhook deliveries carry `&scope=webhook` links instead (the scope is part
+ * of the signed string): those open without the session token, so a receiver
+ * can archive the artifact, but still expire and are still revoked on reset.
+ */
+
+export const DEFAULT_FILE_URL_TTL_MINUTES = 15;
+
+const REVOKED = (sid: string) => `files-revoked:${sid}`;
+
+/** Lifetime of a signed link (FILE_URL_TTL_MINUTES var) */
+export function fileUrlTtlSeconds(env: Env): number {
+  const m = Number(env.FILE_URL_TTL_MINUTES);
+  return Math.round((Number.isFinite(m) && m > 0 ? m : DEFAULT_FILE_URL_TTL_MINUTES) * 60);
+}
+
+export type SignedFileUrl = { url: string; expiresAt: number }; // expiresAt: epoch ms
+
+/** Who a link is for: the owning session (default), or a webhook receiver (no session token) */
+export type FileUrlScope = "session" | "webhook";
+
+function signedFileString(key: string, iat: number, exp: number, scope: FileUrlScope): string {
+  return scope === "session" ? `file:${key}:${iat}:${exp}` : `file:${key}:${iat}:${exp}:${scope}`;
+}
+
+/**
+ * Signed, expiring link for an R2 key under files/<sid>/. `iat` defaults to
+ * now; pass an earlier one to re-sign a link that must stay revocable as of
+ * that time (the expiry still counts from now).
+ */
+export async function signFileUrl(
+  env: Env,
+  key: string,
+  scope: FileUrlScope = "session",
+  iat = Date.now()
+): Promise<SignedFileUrl> {
+  const exp = Math.floor(Date.now() / 1000) + fileUrlTtlSeconds(env);
+  const sig = await signHmac(env, signedFileString(key, iat, exp, scope));
+  const path = key.split("/").map(encodeURIComponent).join("/");
+  const extra = scope === "session" ? "" : `&scope=${scope}`;
+  return { url: `/${path}?iat=${iat}&exp=${exp}${extra}&sig=${sig}`, expiresAt: exp * 1000 };
+}
+
+/**
+ * Invalidate every link issued so far for `sid` (on reset). The marker only
+ * needs to outlive the links it revokes. KV is eventually consistent, so other
+ * locations may honour old links for up to a minute.
+ */
+export async function revokeFileUrls(env: Env, sid: string): Promise<void> {
+  await env.agent_sessions.put(REVOKED(sid), String(Date.now()), { expirationTtl: Math.max(60, fileUrlTtlSeconds(env)) });
+}
+
+/** When `sid`'s links were last revoked (epoch ms), or 0 (none, or the marker lapsed) */
+export async function fileUrlsRevokedAt(env: Env, sid: string): Promise<number> {
+  return Number(await env.agent_sessions.get(REVOKED(sid))) || 0;
+}
+
+/**
+ * Gate for GET /files/<sid>/<name> (and /api/files/...): valid signature,
+ * not expired, not revoked, and requested by the owning session (webhook
+ * links skip that last check). Returns an error response, or undefined to
+ * serve the object.
+ */
+export async function authorizeFile(request: Request, env: Env, sid: string, name: string): Promise<Response | undefined> {
+  const q = new URL(request.url).searchParams;
+  const iat = Number(q.get("iat"));
+  const exp = Number(q.get("exp"));
+  const sig = q.get("sig");
+  const scope = q.get("scope") ?? "session";
+  if (!sig || !Number.isInteger(iat) || !Number.isInteger(exp)) return new Response("Forbidden", { status: 403 });
+  if (scope !== "session" && scope !== "webhook") return new Response("Forbidden", { status: 403 });
+  if (!(await verifyHmac(env, signedFileString(`files/${sid}/${name}`, iat, exp, scope), sig))) {
+    return new Response("Forbidden", { status: 403 });
+  }
+  if (exp * 1000 <= Date.now()) return new Response("Link expired", { status: 403 });
+
+  const revokedAt = await fileUrlsRevokedAt(env, sid);
+  if (revokedAt && iat <= revokedAt) return new Response("Link revoked", { status: 403 });
+
+  return scope === "webhook" ? undefined : authorizeSession(request, env, sid);
+}
+
+/** Persisted tool row with its artifact link (if any) re-signed */
+export async function resignToolRow(env: Env, content: string): Promise<string> {
+  try {
+    const row = JSON.parse(content) as { type?: string; result?: { ok?: boolean; r2Key?: unknown } };
+    const key = row?.type === "tool_result" && row.result?.ok ? row.result.r2Key : undefined;
+    if (typeof key !== "string") return content;
+    const { url, expiresAt } = await signFileUrl(env, key);
+    return JSON.stringify({ ...row, result: { ...row.result, url, urlExpiresAt: expiresAt } });
+  } catch {
+    return content;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Storage: every artifact records who made it (R2 custom metadata) and counts
+// against a per-session quota (FILES_QUOTA_MB).
+
+export const DEFAULT_FILES_QUOTA_MB = 50;
+
+/** Custom metadata written with every artifact (R2 stores strings) */
+export type ArtifactMeta = {
+  tool: string;              // function name of the creating tool
+  sourceUrl: string;         // page the artifact was made from
+  messageId: string;         // row the tool run hangs off (its preamble); "" if unknown
+  createdAt: string;         // epoch ms
+};
+
+/** One artifact as listed by GET /api/files/:sid */
+export type ArtifactInfo = {
+  name: string;
+  key: string;
+  size: number;
+  contentType: string | null;
+  tool: string | null;
+  sourceUrl: string | null;
+  messageId: number | null;
+  createdAt: number;         // epoch ms
+  url: string;               // signed link
+  urlExpiresAt: number;
+};
+
+export type StoreCode = "QUOTA_EXCEEDED" | "UPLOAD_FAIL";
+
+export function filesQuotaBytes(env: Env): number {
+  const mb = Number(env.FILES_QUOTA_MB);
+  return Math.round((Number.isFinite(mb) && mb > 0 ? mb : DEFAULT_FILES_QUOTA_MB) * 1024 * 1024);
+}
+
+type StoredObject = NonNullable<Awaited<ReturnType<Env["agent_browser_uploads"]["head"]>>>;
+
+/** Every R2 object under files/<sid>/ (with metadata) */
+async function listObjects(env: Env, sid: string): Promise<StoredObject[]> {
+  const out: StoredObject[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await env.agent_browser_uploads.list({
+      prefix: `files/${sid}/`,
+      cursor,
+      limit: 1000,
+      include: ["httpMetadata", "customMetadata"],
+    });
+    out.push(...page.objects);
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return out;
+}
+
+/** Upload a tool artifact unless it would push the session over its quota */
+export async function storeArtifact(
+  env: Env,
+  key: string,
+  body: ArrayBuffer,
+  contentType: string,
+  meta: { tool: string; sourceUrl: string; messageId?: number | null }
+): Promise<{ ok: true } | { ok: false; code: StoreCode; error: string }> {
+  const sid = key.split("/")[1] ?? "";
+  try {
+    const used = (await listObjects(env, sid)).reduce((n, o) => n + o.size, 0);
+    const quota = filesQuotaBytes(env);
+    if (used + body.byteLength > quota) {
+      const mb = (n: number) => (n / 1024 / 1024).toFixed(1);
+      console.log("[files] quota exceeded", { sid, used, bytes: body.byteLength, quota });
+      return {
+        ok: false,
+        code: "QUOTA_EXCEEDED",
+        error: `File storage for this session is full (${mb(used)} of ${mb(quota)} MB used). Delete some files and try again.`,
+      };
+    }
+    const customMetadata: ArtifactMeta = {
+      tool: meta.tool,
+      sourceUrl: meta.sourceUrl,
+      messageId: meta.messageId == null ? "" : String(meta.messageId),
+      createdAt: String(Date.now()),
+    };
+    await env.agent_browser_uploads.put(key, body, { httpMetadata: { contentType }, customMetadata });
+    return { ok: true };
+  } catch {
+    return { ok: false, code: "UPLOAD_FAIL", error: "Upload failed" };
+  }
+}
+
+/** Artifact count and bytes under files/<sid>/ */
+export async function sessionStorage(env: Env, sid: string): Promise<{ files: number; bytes: number }> {
+  const objects = await listObjects(env, sid);
+  return { files: objects.length, bytes: objects.reduce((n, o) => n + o.size, 0) };
+}
+
+/** GET /api/files/:sid: newest first, each with a fresh signed link */
+export async function listArtifacts(env: Env, sid: string): Promise<{ files: ArtifactInfo[]; usedBytes: number; quotaBytes: number }> {
+  const objects = await listObjects(env, sid);
+  const files = await Promise.all(
+    objects.map(async (o): Promise<ArtifactInfo> => {
+      const m = (o.customMetadata ?? {}) as Partial<ArtifactMeta>;
+      const link = await signFileUrl(env, o.key);
+      return {
+        name: o.key.slice(`files/${sid}/`.length),
+        key: o.key,
+        size: o.size,
+        contentType: o.httpMetadata?.contentType ?? null,
+        tool: m.tool || null,
+        sourceUrl: m.sourceUrl || null,
+        messageId: m.messageId ? Number(m.messageId) : null,
+        createdAt: m.createdAt ? Number(m.createdAt) : o.uploaded.getTime(),
+        url: link.url,
+        urlExpiresAt: link.expiresAt,
+      };
+    })
+  );
+  files.sort((a, b) => b.createdAt - a.createdAt);
+  return { files, usedBytes: objects.reduce((n, o) => n + o.size, 0), quotaBytes: filesQuotaBytes(env) };
+}
+
+// ---------------------------------------------------------------------------
+// Serving: one handler for /files and /api/files (GET + HEAD, single byte
+// ranges, ETag / If-None-Match / If-Range). Callers authorize first.
+
+type ByteRange = { offset: number; length: number };
+
+/** `Range: bytes=a-b | a- | -n` against `size`; null = serve whole object (absent, multi-range, other unit) */
+function parseRange(header: string | null, size: number): ByteRange | null | "unsatisfiable" {
+  const m = header?.trim().match(/^bytes=(\d*)-(\d*)$/);
+  if (!m || (!m[1] && !m[2])) return null;
+  if (!m[1]) {
+    const n = Math.min(Number(m[2]), size); // suffix: last n bytes
+    return n > 0 ? { offset: size - n, length: n } : "unsatisfiable";
+  }
+  const start = Number(m[1]);
+  const end = m[2] ? Math.min(Number(m[2]), size - 1) : size - 1;
+  if (start >= size || end < start) return "unsatisfiable";
+  return { offset: start, length: end - start + 1 };
+}
+
+/** If-None-Match hit (weak comparison, `*` included) */
+function etagMatches(header: string | null, etag: string): boolean {
+  if (!header) return false;
+  const bare = (t: string) => t.trim().replace(/^W\//, "");
+  return header.split(",").some((t) => t.trim() === "*" || bare(t) === bare(etag));
+}
+
+export async function serveFile(request: Request, env: Env, key: string, name: string): Promise<Response> {
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    return new Response("Method Not Allowed", { status: 405, headers: { allow: "GET, HEAD" } });
+  }
+
+  const meta = await env.agent_browser_uploads.head(key);
+  if (!meta) return new Response("Not found", { status: 404 });
+
+  const headers = new Headers();
+  headers.set("etag", meta.httpEtag);
+  headers.set("last-modified", meta.uploaded.toUTCString());
+  headers.set("accept-ranges", "bytes");
+  headers.set("cache-control", "private, max-age=0, must-revalidate");
+
+  if (etagMatches(request.headers.get("If-None-Match"), meta.httpEtag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  if (meta.httpMetadata?.contentType) headers.set("content-type", meta.httpMetadata.contentType);
+  headers.set("content-disposition", `inline; filename="${name.replace(/"/g, "")}"`);
+
+  // A stale If-Range (object changed since the client's partial copy) means "send it all"
+  const ifRange = request.headers.get("If-Range");
+  const range = ifRange && ifRange !== meta.httpEtag ? null : parseRange(request.headers.get("Range"), meta.size);
+  if (range === "unsatisfiable") {
+    headers.set("content-range", `bytes */${meta.size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  const status = range ? 206 : 200;
+  headers.set("content-length", String(range ? range.length : meta.size));
+  if (range) headers.set("content-range", `bytes ${range.offset}-${range.offset + range.length - 1}/${meta.size}`);
+  if (request.method === "HEAD") return new Response(null, { status, headers });
+
+  const obj = await env.agent_browser_uploads.get(key, range ? { range } : undefined);
+  if (!obj) return new Response("Not found", { status: 404 });
+  return new Response(obj.body as unknown as globalThis.ReadableStream, { status, headers });
+}
@@ -1,69 +1,135 @@
 /// <reference types="@cloudflare/workers-types" />
 
 import type { Env } from "../worker-configuration";
-import { routeAgentRequest } from "agents";
-import { getOrCreateSession } from "./session";
+import { getAgentByName, routeAgentRequest } from "agents";
+import { authorizeSession, getOrCreateSession, purgeSessionFiles, readSessionToken, verifySessionToken } from "./session";
+import { openaiError } from "./openai";
+import { DEFAULT_MODEL, MODELS } from "./models";
+import { authorizeFile, listArtifacts, serveFile } from "./files";
+import { adminApi, authorizeAdmin, sweepOrphanSessions } from "./admin";
+import { ToolsMcp } from "./mcp";
 export { default as AIAgent } from "./agent";
+export { ToolsMcp };
+
+const mcpHandler = ToolsMcp.serve("/mcp", { binding: "MCP_TOOLS" });
+
+type Lobby = { party: string; name: string };
+type AgentStub = { fetch(req: Request): Promise<Response> };
+type RouteAgentRequest = (
+  req: Request,
+  env: Env,
+  options: {
+    onBeforeConnect: (req: Request, lobby: Lobby) => Promise<Response | undefined>;
+    onBeforeRequest: (req: Request, lobby: Lobby) => Promise<Response | undefined>;
+  }
+) => Promise<Response | null>;
+
+/** The session's AIAgent instance (its onRequest serves the HTTP APIs) */
+const agentStub = (env: Env, sid: string) =>
+  (getAgentByName as unknown as (ns: Env["AI_AGENT"], name: string) => Promise<AgentStub>)(env.AI_AGENT, sid);
 
 export default {
   async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
-    void ctx;
     const url = new URL(request.url);
 
-    // 0) Hand off any /agents/... traffic (WS + HTTP) to the Agents SDK router.
-    const routed = await (routeAgentRequest as unknown as (req: Request, env: Env) => Promise<Response | null>)(request, env);
+    // 0) Hand off any /agents/... traffic (WS + HTTP) to the Agents SDK router,
+    //    but only for the session named in a valid signed token (see session.ts).
+    const guard = (req: Request, lobby: Lobby) => authorizeSession(req, env, lobby.name);
+    const routed = await (routeAgentRequest as unknown as RouteAgentRequest)(request, env, {
+      onBeforeConnect: guard,
+      onBeforeRequest: guard,
+    });
     if (routed) return routed;
 
-    // 1) Session cookie endpoint: ensures cf_session is set for this origin (dev + prod).
+    // 1) Session endpoint: issues/renews the signed cf_session cookie and returns the sid to connect to.
     if (url.pathname === "/api/session" && request.method === "GET") {
       return (await getOrCreateSession(request, env)) as unknown as Response;
     }
 
-    // 2) File streaming: /files/:sid/:name → stream from R2 (PUBLIC)
-    if (url.pathname.startsWith("/files/")) {
-      const parts = url.pathname.split("/").filter(Boolean); // ["files", ":sid", ":name..."]
-      if (parts.length >= 3) {
-        const sid = parts[1]!;
-        const name = decodeURIComponent(parts.slice(2).join("/"));
-        const key = `files/${sid}/${name}`;
-
-        const obj = await env.agent_browser_uploads.get(key);
-        if (!obj) return new Response("Not found", { status: 404 });
+    // 1b) HTTP chat API for scripts/CI, same durable object as the WS:
+    //     POST /api/sessions/:sid/chat (SSE) · GET /api/sessions/:sid/history · DELETE /api/sessions/:sid
+    //     · GET /api/sessions/:sid/metrics · /api/sessions/:sid/webhooks/... (subscriptions + delivery log)
+    const api = url.pathname.match(/^\/api\/sessions\/([^/]+)(?:\/(chat|history|metrics|webhooks(?:\/.+)?))?$/);
+    if (api) {
+      const denied = await authorizeSession(request, env, api[1]!);
+      if (denied) return denied;
+      return (await agentStub(env, api[1]!)).fetch(request);
+    }
 
-        const headers = new Headers();
-        if (obj.httpMetadata?.contentType) headers.set("content-type", obj.httpMetadata.contentType);
-        headers.set("content-disposition", `inline; filename="${name.replace(/"/g, "")}"`);
-        headers.set("cache-control", "private, max-age=0, must-revalidate");
+    // 1c) OpenAI-compatible chat completions; the API key is a session token (from /api/session)
+    if (url.pathname === "/v1/chat/completions") {
+      if (request.method !== "POST") return openaiError(405, "Use POST");
+      const claims = await verifySessionToken(env, readSessionToken(request));
+      if (!claims) return openaiError(401, "Invalid or expired API key (use a session token from /api/session)", "authentication_error");
+      return (await agentStub(env, claims.sid)).fetch(request);
+    }
 
-        return new Response(obj.body as unknown as globalThis.ReadableStream, { headers });
+    // 1d) MCP server (tools only); the session token picks where artifacts are stored
+    if (url.pathname === "/mcp" || url.pathname.startsWith("/mcp/")) {
+      if (request.method !== "OPTIONS") {
+        const claims = await verifySessionToken(env, readSessionToken(request));
+        if (!claims) return new Response("Unauthorized", { status: 401, headers: { "www-authenticate": "Bearer" } });
+        (ctx as ExecutionContext & { props?: unknown }).props = { sid: claims.sid, origin: url.origin };
       }
-      return new Response("Bad Request", { status: 400 });
+      return mcpHandler.fetch(request, env, ctx);
+    }
+
+    // 1e) Operator API (Bearer ADMIN_TOKEN): sessions, transcripts, deletion, tool usage (see admin.ts)
+    if (url.pathname.startsWith("/api/admin/")) {
+      const denied = authorizeAdmin(request, env);
+      if (denied) return denied;
+      return adminApi(request, env, (sid) => agentStub(env, sid));
     }
 
-    // /api/files/:sid/:name → stream from R2 (PUBLIC)
-    if (url.pathname.startsWith("/api/files/")) {
-      const parts = url.pathname.split("/").filter(Boolean); // ["api", "files", ":sid", ":name..."]
-      if (parts.length >= 4) {
-        const sid = parts[2]!;
-        const name = decodeURIComponent(parts.slice(3).join("/"));
-        const key = `files/${sid}/${name}`;
-
-        const obj = await env.agent_browser_uploads.get(key);
-        if (!obj) return new Response("Not found", { status: 404 });
-
-        const headers = new Headers();
-        if (obj.httpMetadata?.contentType) headers.set("content-type", obj.httpMetadata.contentType);
-        headers.set("content-disposition", `inline; filename="${name.replace(/"/g, "")}"`);
-        headers.set("cache-control", "public, max-age=3600");
-        headers.set("x-worker", "on");
-        headers.set("x-route", "api-files");
-
-        return new Response(obj.body as unknown as globalThis.ReadableStream, { headers });
+    // 2) Artifact management (session token, not a signed link):
+    //    GET /api/files/:sid → list · DELETE /api/files/:sid → delete all · DELETE /api/files/:sid/:name → delete one
+    const manage = url.pathname.match(/^\/api\/files\/([^/]+)(?:\/(.+))?$/);
+    if (manage && (request.method === "DELETE" || (request.method === "GET" && !manage[2]))) {
+      const sid = manage[1]!;
+      const denied = await authorizeSession(request, env, sid);
+      if (denied) return denied;
+      const json = (body: unknown, status = 200) =>
+        new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", "cache-control": "no-store" } });
+
+      if (request.method === "GET") return json(await listArtifacts(env, sid));
+      if (!manage[2]) return json({ deleted: await purgeSessionFiles(env, sid) });
+
+      let name: string;
+      try {
+        name = decodeURIComponent(manage[2]);
+      } catch {
+        return json({ error: "Bad file name" }, 400); // malformed % escape
       }
-      return new Response("Bad Request", { status: 400 });
+      const key = `files/${sid}/${name}`;
+      if (!(await env.agent_browser_uploads.head(key))) return json({ error: "Not found" }, 404);
+      await env.agent_browser_uploads.delete(key);
+      return json({ deleted: 1 });
     }
 
+    // 2b) File streaming: /files/:sid/:name and /api/files/:sid/:name (?iat&exp&sig) → R2,
+    //     signed link + owning session (webhook-scoped links: signature only); GET/HEAD with ranges and ETags (see files.ts)
+    if (url.pathname.startsWith("/files/") || url.pathname.startsWith("/api/files/")) {
+      const m = url.pathname.match(/^\/(?:api\/)?files\/([^/]+)\/(.+)$/);
+      if (!m) return new Response("Bad Request", { status: 400 });
+      const sid = m[1]!;
+      let name: string;
+      try {
+        name = decodeURIComponent(m[2]!);
+      } catch {
+        return new Response("Bad Request", { status: 400 }); // malformed % escape
+      }
 
+      const denied = await authorizeFile(request, env, sid, name);
+      if (denied) return denied;
+      return serveFile(request, env, `files/${sid}/${name}`, name);
+    }
+
+    // Model registry for the SPA's picker
+    if (url.pathname === "/api/models" && request.method === "GET") {
+      return new Response(JSON.stringify({ models: MODELS, defaultModel: DEFAULT_MODEL }), {
+        headers: { "content-type": "application/json", "cache-control": "public, max-age=300" },
+      });
+    }
 
     if (url.pathname === "/api/health" || url.pathname === "/health") {
       return new Response(JSON.stringify({ ok: true }), {
@@ -75,4 +141,9 @@ export default {
     // IMPORTANT: do NOT detach this method; call it on the binding.
     return env.ASSETS.fetch(request);
   },
+
+  // Daily cron: clean up sessions no client can reach any more (see admin.ts)
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(sweepOrphanSessions(env, (sid) => agentStub(env, sid)));
+  },
 } satisfies ExportedHandler<Env>;
@@ -0,0 +1,83 @@
+/// <reference lib="webworker" />
+import { McpAgent } from "agents/mcp";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { CallToolRequestSchema, ListToolsRequestSchema, type CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Env } from "../worker-configuration";
+import { DEFAULT_MODEL } from "./models";
+import { getToolByFunction, type AgentTool, type ToolEmit } from "./tools";
+
+/**
+ * MCP server at /mcp (Streamable HTTP, plus /mcp/sse for SSE-only clients)
+ * publishing the agent's tools with the same JSON schemas the planner sees.
+ *
+ * The worker authenticates the caller with a session token and passes the
+ * session as props, so artifacts land under that session's files/<sid>/ (and
+ * its quota) and come back as resource links the same token can fetch.
+ * `emit` progress becomes notifications/progress when the call has a progressToken.
+ */
+
+/** Set by the worker from the caller's session token */
+export type McpProps = { sid: string; origin: string };
+
+/** Agent tools published over MCP (scheduling needs a chat session, so it stays out) */
+const MCP_TOOLS = ["getWeather", "captureScreenshot", "convertToPdf"];
+
+function published(): AgentTool[] {
+  return MCP_TOOLS.map((fn) => getToolByFunction(fn)).filter((t): t is AgentTool => !!t);
+}
+
+export class ToolsMcp extends McpAgent<Env, unknown, McpProps> {
+  declare env: Env;
+
+  server = new Server({ name: "cf-ai-agent-montreal", version: "0.0.1" }, { capabilities: { tools: {} } });
+
+  async init() {
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: published().map((t) => ({
+        name: t.schema.function.name,
+        title: t.title,
+        description: t.schema.function.description,
+        inputSchema: (t.schema.function.parameters ?? { type: "object", properties: {} }) as { type: "object" },
+      })),
+    }));
+
+    this.server.setRequestHandler(CallToolRequestSchema, async (req, extra): Promise<CallToolResult> => {
+      const tool = published().find((t) => t.schema.function.name === req.params.name);
+      if (!tool) return { content: [{ type: "text", text: `Unknown tool: ${req.params.name}` }], isError: true };
+
+      // Explicit MCP arguments count as "what the user said" for the URL checks in parseArgs
+      const raw = req.params.arguments ?? {};
+      const checked = tool.parseArgs(raw, JSON.stringify(raw));
+      if (!checked.ok) return { content: [{ type: "text", text: checked.question }], isError: true };
+
+      const token = req.params._meta?.progressToken;
+      let progress = 0;
+      const emit: ToolEmit = (message) => {
+        if (token === undefined) return;
+        void extra
+          .sendNotification({ method: "notifications/progress", params: { progressToken: token, progress: ++progress, message } })
+          .catch(() => { /* client gone */ });
+      };
+
+      console.log("[mcp] call", { tool: tool.name, sid: this.props.sid });
+      const res = await tool.execute(
+        { env: this.env, sid: this.props.sid, model: DEFAULT_MODEL, settings: {}, signal: extra.signal },
+        checked.args,
+        emit
+      );
+
+      const content: CallToolResult["content"] = [{ type: "text", text: JSON.stringify(res) }];
+      const file = res as { ok: boolean; url?: string; r2Key?: string; contentType?: string; sourceUrl?: string };
+      if (file.ok && file.url && file.r2Key) {
+        content.push({
+          type: "resource_link",
+          uri: new URL(file.url, this.props.origin).toString(),
+          name: file.r2Key.split("/").pop() ?? file.r2Key,
+          mimeType: file.contentType,
+          description: `${tool.title} of ${file.sourceUrl ?? "the page"} (signed link; send the same Bearer token)`,
+        });
+      }
+      return { content, isError: !res.ok };
+    });
+  }
+}
@@ -0,0 +1,86 @@
+/// <reference lib="webworker" />
+import type { ChatMessage, Env } from "../worker-configuration";
+import { aiText } from "./ai";
+import { modelOrDefault } from "./models";
+
+/**
+ * Long-conversation memory: older rows are folded into a rolling summary
+ * (written by the session model) so history fits a per-model token budget.
+ */
+
+/** Share of the context window given to history (rest: system prompt, tools, answer) */
+const HISTORY_SHARE = 0.25;
+/** Hard cap so huge windows don't turn into slow prompts */
+const HISTORY_CAP = 12_000;
+
+/** Rough token estimate (~4 chars per token); good enough for budgeting */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function historyBudget(model: string): number {
+  const ctx = modelOrDefault(model).contextWindow;
+  return Math.min(HISTORY_CAP, Math.floor(ctx * HISTORY_SHARE));
+}
+
+/** One persisted row as the model should see it; tool rows become short notes */
+export function toModelMessage(m: { role: "user" | "assistant" | "tool"; content: string }): ChatMessage {
+  if (m.role !== "tool") return { role: m.role, content: m.content };
+  try {
+    const row = JSON.parse(m.content) as { tool?: string; result?: { ok?: boolean } };
+    const status = row.result?.ok ? "succeeded" : "failed";
+    return {
+      role: "assistant",
+      content: `[tool ${row.tool ?? "unknown"} ${status}] ${JSON.stringify(row.result ?? {}).slice(0, 600)}`,
+    };
+  } catch {
+    return { role: "assistant", content: "[tool result]" };
+  }
+}
+
+/** The memory record as a history message (placed right after the system prompt) */
+export function memoryMessage(summary: string): ChatMessage {
+  return { role: "system", content: `Conversation memory (earlier turns, summarized):\n${summary}` };
+}
+
+/**
+ * Fold `previous` memory + `older` messages into a new summary.
+ * Returns null when the model call fails; callers then just drop the rows.
+ */
+export async function summarizeMemory(
+  env: Env,
+  model: string,
+  previous: string,
+  older: ChatMessage[]
+): Promise<string | null> {
+  const transcript = older
+    .map((m) => `${m.role === "user" ? "User" : "Assistant"}: ${m.content}`)
+    .join("\n")
+    .slice(0, 24_000);
+
+  try {
+    const out = await env.AI.run(model, {
+      messages: [
+        {
+          role: "system",
+          content:
+            "You maintain the memory of a long chat between a user and an AI agent with tools (weather, screenshots, PDFs). " +
+            "Merge the existing memory and the transcript into one updated memory of at most 200 words. " +
+            "Keep facts, decisions, user preferences, places, URLs, and tool outcomes (forecast highlights, screenshot/PDF links and failures). " +
+            "Write terse bullet points; no preamble.",
+        },
+        {
+          role: "user",
+          content: `Existing memory:\n${previous || "(none)"}\n\nTranscript to fold in:\n${transcript}`,
+        },
+      ],
+      // fixed sampling, not the session's: the memory has to stay faithful and complete
+      temperature: 0.2,
+      max_tokens: 400,
+    });
+    return (await aiText(out)) || null;
+  } catch (e) {
+    console.log("[memory] summarize error:", e instanceof Error ? e.message : String(e));
+    return null;
+  }
+}
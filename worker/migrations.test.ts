@@ -0,0 +1,148 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import initSqlJs, { type Database, type SqlJsStatic } from "sql.js";
+import { MIGRATIONS, migrate, type Sql } from "./migrations";
+
+let SQL: SqlJsStatic;
+beforeAll(async () => {
+  SQL = await initSqlJs();
+});
+
+/** The agent's `this.sql` and `transactionSync`, over an in-memory SQLite */
+function store(db: Database) {
+  const sql = (<T>(strings: TemplateStringsArray, ...values: (string | number | boolean | null)[]): T[] => {
+    const stmt = db.prepare(strings.join("?"));
+    try {
+      stmt.bind(values.map((v) => (typeof v === "boolean" ? Number(v) : v)));
+      const rows: T[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject() as T);
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }) as Sql;
+  const transaction = <T>(fn: () => T): T => {
+    db.run("BEGIN");
+    try {
+      const out = fn();
+      db.run("COMMIT");
+      return out;
+    } catch (e) {
+      db.run("ROLLBACK");
+      throw e;
+    }
+  };
+  return { sql, transaction };
+}
+
+/**
+ * A store from before the migration runner: only the bare messages table (as
+ * the old #schema created it) with a short conversation, no schema_version
+ */
+function baselineStore(): Database {
+  const db = new SQL.Database();
+  db.run(`
+    CREATE TABLE IF NOT EXISTS messages (
+      id INTEGER PRIMARY KEY,
+      role    TEXT    NOT NULL,
+      content TEXT    NOT NULL,
+      ts      INTEGER NOT NULL
+    )`);
+  db.run(`INSERT INTO messages (id, role, content, ts) VALUES
+    (1, 'user', 'Weather in Montreal?', 100),
+    (2, 'assistant', 'Sunny, 21°C.', 101),
+    (4, 'user', 'Screenshot example.com', 102),
+    (7, 'assistant', 'Done.', 103)`);
+  return db;
+}
+
+/** The same store once the runner has recorded version 1 */
+function v1Store(): Database {
+  const db = baselineStore();
+  db.run(`CREATE TABLE schema_version (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at INTEGER NOT NULL)`);
+  db.run(`INSERT INTO schema_version VALUES (1, 'messages', 1)`);
+  return db;
+}
+
+function columns(db: Database, table: string): string[] {
+  return (db.exec(`PRAGMA table_info(${table})`)[0]?.values ?? []).map((r) => String(r[1]));
+}
+
+function tables(db: Database): string[] {
+  return (db.exec(`SELECT name FROM sqlite_master WHERE type = 'table'`)[0]?.values ?? []).map((r) => String(r[0]));
+}
+
+describe("migrate", () => {
+  it("upgrades a pre-runner store (no schema_version) with existing rows from version 0", () => {
+    const db = baselineStore();
+    const { sql, transaction } = store(db);
+    expect(tables(db)).not.toContain("schema_version");
+
+    expect(migrate(transaction, sql)).toBe(7);
+    expect(db.exec(`SELECT version FROM schema_version ORDER BY version`)[0]!.values.flat()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+
+    const rows = db.exec(`SELECT id, parent_id, role, content, ts FROM messages ORDER BY id`)[0]!.values;
+    expect(rows).toEqual([
+      [1, null, "user", "Weather in Montreal?", 100],
+      [2, 1, "assistant", "Sunny, 21°C.", 101],
+      [4, 2, "user", "Screenshot example.com", 102],
+      [7, 4, "assistant", "Done.", 103],
+    ]);
+    expect(tables(db)).toEqual(expect.arrayContaining(["memory", "webhooks", "webhook_deliveries", "tool_metrics"]));
+  });
+
+  it("upgrades a v1 store with existing rows to the latest version", () => {
+    const db = v1Store();
+    const { sql, transaction } = store(db);
+
+    const latest = Math.max(...MIGRATIONS.map((m) => m.version));
+    expect(migrate(transaction, sql)).toBe(latest);
+    expect(latest).toBe(7);
+
+    // existing history becomes one linear branch, oldest row first
+    const rows = db.exec(`SELECT id, parent_id, content FROM messages ORDER BY id`)[0]!.values;
+    expect(rows).toEqual([
+      [1, null, "Weather in Montreal?"],
+      [2, 1, "Sunny, 21°C."],
+      [4, 2, "Screenshot example.com"],
+      [7, 4, "Done."],
+    ]);
+
+    expect(db.exec(`SELECT MAX(version) FROM schema_version`)[0]!.values[0]![0]).toBe(7);
+    expect(db.exec(`SELECT version FROM schema_version ORDER BY version`)[0]!.values.flat()).toEqual([1, 2, 3, 4, 5, 6, 7]);
+
+    expect(columns(db, "messages")).toEqual(
+      expect.arrayContaining(["parent_id", "model", "prompt_tokens", "completion_tokens"])
+    );
+    expect(tables(db)).toEqual(expect.arrayContaining(["memory", "webhooks", "webhook_deliveries", "tool_metrics"]));
+  });
+
+  it("does nothing on a store that is already current", () => {
+    const db = v1Store();
+    const { sql, transaction } = store(db);
+    migrate(transaction, sql);
+    const before = db.exec(`SELECT COUNT(*) FROM schema_version`)[0]!.values[0]![0];
+
+    expect(migrate(transaction, sql)).toBe(7);
+    expect(db.exec(`SELECT COUNT(*) FROM schema_version`)[0]!.values[0]![0]).toBe(before);
+  });
+
+  it("rolls back a failing migration together with its version row", () => {
+    const db = v1Store();
+    const { sql, transaction } = store(db);
+    const broken = [
+      ...MIGRATIONS.slice(0, 2),
+      {
+        version: 3,
+        name: "broken",
+        up(s: Sql) {
+          void s`CREATE TABLE half_done (id INTEGER)`;
+          void s`ALTER TABLE no_such_table ADD COLUMN x TEXT`;
+        },
+      },
+    ];
+
+    expect(() => migrate(transaction, sql, broken)).toThrow();
+    expect(db.exec(`SELECT MAX(version) FROM schema_version`)[0]!.values[0]![0]).toBe(2);
+    expect(tables(db)).not.toContain("half_done");
+  });
+});
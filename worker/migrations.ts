@@ -0,0 +1,166 @@
+/// <reference lib="webworker" />
+
+/**
+ * Versioned schema for the agent's SQLite store. Each migration runs once, in
+ * order, inside a transaction together with its `schema_version` row, so a
+ * Durable Object is always at exactly one version.
+ *
+ * To change the schema, append a migration with the next version number; never
+ * edit or reorder one that has shipped.
+ */
+
+/** The agent's `this.sql` tagged template */
+export type Sql = <T = Record<string, string | number | boolean | null>>(
+  strings: TemplateStringsArray,
+  ...values: (string | number | boolean | null)[]
+) => T[];
+
+export type Migration = {
+  version: number;
+  name: string;
+  up(sql: Sql): void;
+};
+
+/*
+ * 1–3 describe stores created before this runner existed (version 0 on first
+ * run), so they must tolerate tables/columns that are already there.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "messages",
+    up(sql) {
+      void sql`
+        CREATE TABLE IF NOT EXISTS messages (
+          id INTEGER PRIMARY KEY,
+          role    TEXT    NOT NULL,
+          content TEXT    NOT NULL,
+          ts      INTEGER NOT NULL
+        )`;
+    },
+  },
+  {
+    version: 2,
+    name: "messages.parent_id",
+    up(sql) {
+      // Branching: rows form a tree; existing history becomes one linear branch
+      const cols = sql<{ name: string }>`PRAGMA table_info(messages)`;
+      if (cols.some((c) => c.name === "parent_id")) return;
+      void sql`ALTER TABLE messages ADD COLUMN parent_id INTEGER`;
+      void sql`UPDATE messages SET parent_id = (SELECT MAX(p.id) FROM messages p WHERE p.id < messages.id)`;
+    },
+  },
+  {
+    version: 3,
+    name: "memory",
+    up(sql) {
+      // Rolling summary of older rows; upto_id = last message id it covers
+      void sql`
+        CREATE TABLE IF NOT EXISTS memory (
+          upto_id INTEGER PRIMARY KEY,
+          summary TEXT    NOT NULL,
+          ts      INTEGER NOT NULL
+        )`;
+    },
+  },
+  {
+    version: 4,
+    name: "messages.model",
+    up(sql) {
+      // Model that actually produced an assistant row (fallbacks may differ from the session model)
+      void sql`ALTER TABLE messages ADD COLUMN model TEXT`;
+    },
+  },
+  {
+    version: 5,
+    name: "messages.tokens",
+    up(sql) {
+      // Token usage reported for the model call that produced an assistant row
+      void sql`ALTER TABLE messages ADD COLUMN prompt_tokens INTEGER`;
+      void sql`ALTER TABLE messages ADD COLUMN completion_tokens INTEGER`;
+    },
+  },
+  {
+    version: 6,
+    name: "webhooks",
+    up(sql) {
+      // Outbound webhook subscriptions (events: JSON array; origin: worker origin
+      // artifact links are made absolute under) and their delivery log
+      void sql`
+        CREATE TABLE webhooks (
+          id         TEXT    PRIMARY KEY,
+          url        TEXT    NOT NULL,
+          events     TEXT    NOT NULL,
+          secret     TEXT    NOT NULL,
+          origin     TEXT    NOT NULL,
+          created_at INTEGER NOT NULL
+        )`;
+      void sql`
+        CREATE TABLE webhook_deliveries (
+          id              TEXT    PRIMARY KEY,
+          webhook_id      TEXT    NOT NULL,
+          event           TEXT    NOT NULL,
+          payload         TEXT    NOT NULL,
+          status          TEXT    NOT NULL,
+          attempts        INTEGER NOT NULL DEFAULT 0,
+          response_status INTEGER,
+          error           TEXT,
+          created_at      INTEGER NOT NULL,
+          next_attempt_at INTEGER,
+          delivered_at    INTEGER
+        )`;
+      void sql`CREATE INDEX webhook_deliveries_created ON webhook_deliveries (created_at)`;
+    },
+  },
+  {
+    version: 7,
+    name: "tool_metrics",
+    up(sql) {
+      // Step timings of browser tool runs (capture_ms: screenshot capture or PDF render), one row per run
+      void sql`
+        CREATE TABLE tool_metrics (
+          id           INTEGER PRIMARY KEY,
+          message_id   INTEGER NOT NULL,
+          tool         TEXT    NOT NULL,
+          ok           INTEGER NOT NULL,
+          code         TEXT,
+          total_ms     INTEGER NOT NULL,
+          nav_ms       INTEGER NOT NULL,
+          settle_ms    INTEGER NOT NULL,
+          capture_ms   INTEGER NOT NULL,
+          upload_ms    INTEGER NOT NULL,
+          nav_attempts INTEGER NOT NULL,
+          ts           INTEGER NOT NULL
+        )`;
+    },
+  },
+];
+
+/**
+ * Bring the store up to the latest version; returns the version it ends at.
+ * A failing migration rolls back (with its version row) and rethrows.
+ */
+export function migrate(
+  transaction: <T>(fn: () => T) => T, // ctx.storage.transactionSync
+  sql: Sql,
+  migrations: Migration[] = MIGRATIONS
+): number {
+  void sql`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version    INTEGER PRIMARY KEY,
+      name       TEXT    NOT NULL,
+      applied_at INTEGER NOT NULL
+    )`;
+  let current = sql<{ v: number | null }>`SELECT MAX(version) AS v FROM schema_version`[0]?.v ?? 0;
+
+  for (const m of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (m.version <= current) continue;
+    transaction(() => {
+      m.up(sql);
+      void sql`INSERT INTO schema_version (version, name, applied_at) VALUES (${m.version}, ${m.name}, ${Date.now()})`;
+    });
+    console.log("[migrate] applied", { version: m.version, name: m.name });
+    current = m.version;
+  }
+  return current;
+}
@@ -0,0 +1,45 @@
+/// <reference lib="webworker" />
+
+/**
+ * Models the agent may run on. The SPA renders its picker from this list
+ * (GET /api/models) and the agent rejects anything not listed here.
+ */
+
+export type ModelInfo = {
+  id: string;            // Workers AI model id
+  name: string;          // display name
+  contextWindow: number; // tokens
+  tools: boolean;        // supports function calling (tools are offered only if true)
+  streaming: boolean;    // supports `stream: true`
+  temperature: number;   // default for chat answers
+};
+
+export const MODELS: ModelInfo[] = [
+  {
+    id: "@cf/meta/llama-4-scout-17b-16e-instruct",
+    name: "Llama 4 Scout 17B",
+    contextWindow: 131_000,
+    tools: true,
+    streaming: true,
+    temperature: 0.6,
+  },
+  {
+    id: "@hf/nousresearch/hermes-2-pro-mistral-7b",
+    name: "Hermes 2 Pro 7B",
+    contextWindow: 24_000,
+    tools: true,
+    streaming: true,
+    temperature: 0.6,
+  },
+];
+
+export const DEFAULT_MODEL = MODELS[0].id;
+
+export function getModel(id: string | undefined): ModelInfo | undefined {
+  return MODELS.find((m) => m.id === id);
+}
+
+/** Registry entry for `id`, or the default model (e.g. a session saved with a since-removed model) */
+export function modelOrDefault(id: string | undefined): ModelInfo {
+  return getModel(id) ?? getModel(DEFAULT_MODEL)!;
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { parseCompletionRequest } from "./openai";
+
+const request = (extra: Record<string, unknown>) => ({ messages: [{ role: "user", content: "Weather in Montreal?" }], ...extra });
+
+describe("parseCompletionRequest", () => {
+  it("accepts temperature and max_tokens within the settings ranges", () => {
+    const parsed = parseCompletionRequest(request({ temperature: 0.7, max_tokens: 256 }));
+    expect(parsed.ok && parsed.req).toMatchObject({ temperature: 0.7, maxTokens: 256 });
+  });
+
+  it.each([-0.1, 2.5, "hot"])("rejects temperature %s", (temperature) => {
+    expect(parseCompletionRequest(request({ temperature }))).toEqual({
+      ok: false,
+      error: "`temperature` must be a number between 0 and 2",
+    });
+  });
+
+  it.each([
+    [{ max_tokens: 0 }, "max_tokens"],
+    [{ max_tokens: 100_000 }, "max_tokens"],
+    [{ max_tokens: 12.5 }, "max_tokens"],
+    [{ max_completion_tokens: -1 }, "max_completion_tokens"],
+  ])("rejects %o", (extra, field) => {
+    expect(parseCompletionRequest(request(extra))).toEqual({
+      ok: false,
+      error: `\`${field}\` must be a whole number between 16 and 4096`,
+    });
+  });
+});
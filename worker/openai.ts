@@ -0,0 +1,165 @@
+/// <reference lib="webworker" />
+import type { AIToolCall, ChatMessage } from "../worker-configuration";
+import type { AIUsage } from "./ai";
+import { SETTINGS_LIMITS } from "./settings";
+
+/**
+ * Wire shapes for POST /v1/chat/completions (OpenAI Chat Completions subset).
+ * The agent runs the request; this module only parses and formats.
+ *
+ * Supported: `messages` (string or text-part content, tool calls/results),
+ * `model` (registry id; anything else means the session model), `stream`,
+ * `tools` (selects which agent tools may run; unknown names are ignored),
+ * `tool_choice: "none"`, `temperature` and `max_tokens` (or `max_completion_tokens`),
+ * each within the range session settings allow.
+ */
+
+/** Agent tools reachable through this endpoint (stateless: no scheduling) */
+export const OPENAI_TOOLS = ["getWeather", "captureScreenshot", "convertToPdf"];
+
+export type CompletionRequest = {
+  model?: string;
+  messages: ChatMessage[];
+  system: string[];          // the caller's system messages, appended to the agent's
+  stream: boolean;
+  tools: string[];           // function names allowed to run
+  temperature?: number;
+  maxTokens?: number;
+};
+
+type RawMessage = {
+  role?: unknown;
+  content?: unknown;
+  name?: unknown;
+  tool_call_id?: unknown;
+  tool_calls?: unknown;
+};
+
+/** `content` as a string: plain text, or the text parts of a content array */
+function contentText(c: unknown): string {
+  if (typeof c === "string") return c;
+  if (Array.isArray(c)) {
+    return c
+      .map((p) => (p && typeof p === "object" && (p as { type?: unknown }).type === "text" ? String((p as { text?: unknown }).text ?? "") : ""))
+      .filter(Boolean)
+      .join("\n");
+  }
+  return "";
+}
+
+export function parseCompletionRequest(raw: unknown): { ok: true; req: CompletionRequest } | { ok: false; error: string } {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "Request body must be a JSON object" };
+  const r = raw as Record<string, unknown>;
+  if (!Array.isArray(r.messages) || !r.messages.length) return { ok: false, error: "`messages` must be a non-empty array" };
+
+  const messages: ChatMessage[] = [];
+  const system: string[] = [];
+  for (const m of r.messages as RawMessage[]) {
+    const content = contentText(m?.content);
+    if (m?.role === "system" || m?.role === "developer") {
+      if (content.trim()) system.push(content);
+    } else if (m?.role === "user") {
+      messages.push({ role: "user", content });
+    } else if (m?.role === "assistant") {
+      const calls = Array.isArray(m.tool_calls) ? (m.tool_calls as AIToolCall[]) : undefined;
+      messages.push({ role: "assistant", content, ...(calls?.length ? { tool_calls: calls } : {}) });
+    } else if (m?.role === "tool") {
+      messages.push({
+        role: "tool",
+        content,
+        name: typeof m.name === "string" ? m.name : undefined,
+        tool_call_id: typeof m.tool_call_id === "string" ? m.tool_call_id : undefined,
+      });
+    } else {
+      return { ok: false, error: `Unsupported message role: ${String(m?.role)}` };
+    }
+  }
+  if (!messages.some((m) => m.role === "user")) return { ok: false, error: "`messages` needs at least one user message" };
+
+  // Tool selection: default = every agent tool; `tools` narrows it; tool_choice "none" disables
+  let tools = OPENAI_TOOLS;
+  if (Array.isArray(r.tools)) {
+    const names = (r.tools as Array<{ function?: { name?: unknown } }>).map((t) => t?.function?.name);
+    tools = OPENAI_TOOLS.filter((n) => names.includes(n));
+  }
+  if (r.tool_choice === "none") tools = [];
+
+  // Sampling takes the ranges session settings allow; out of range is the caller's error, not a model failure
+  const num = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : undefined);
+  const given = (v: unknown) => v !== undefined && v !== null;
+  const { temperature } = r;
+  const T = SETTINGS_LIMITS.temperature;
+  if (given(temperature) && !(typeof temperature === "number" && temperature >= T.min && temperature <= T.max)) {
+    return { ok: false, error: `\`temperature\` must be a number between ${T.min} and ${T.max}` };
+  }
+  const field = given(r.max_tokens) ? "max_tokens" : "max_completion_tokens";
+  const maxTokens = r[field];
+  const { min, max } = SETTINGS_LIMITS.maxTokens;
+  const inRange = typeof maxTokens === "number" && Number.isInteger(maxTokens) && maxTokens >= min && maxTokens <= max;
+  if (given(maxTokens) && !inRange) {
+    return { ok: false, error: `\`${field}\` must be a whole number between ${min} and ${max}` };
+  }
+
+  return {
+    ok: true,
+    req: {
+      model: typeof r.model === "string" ? r.model : undefined,
+      messages,
+      system,
+      stream: r.stream === true,
+      tools,
+      temperature: num(temperature),
+      maxTokens: num(maxTokens),
+    },
+  };
+}
+
+export function completionId(): string {
+  return `chatcmpl-${crypto.randomUUID().replace(/-/g, "")}`;
+}
+
+function usageOut(u?: AIUsage) {
+  return u ? { prompt_tokens: u.promptTokens, completion_tokens: u.completionTokens, total_tokens: u.totalTokens } : undefined;
+}
+
+/** Non-streaming response body */
+export function completionBody(id: string, model: string, content: string, usage?: AIUsage) {
+  return {
+    id,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+    usage: usageOut(usage) ?? { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 },
+  };
+}
+
+/** One SSE `data:` line of a streaming response (`delta` null = final chunk) */
+export function completionChunk(id: string, model: string, delta: string | null, usage?: AIUsage): string {
+  const chunk = {
+    id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      delta === null
+        ? { index: 0, delta: {}, finish_reason: "stop" }
+        : { index: 0, delta: { role: "assistant", content: delta }, finish_reason: null },
+    ],
+    ...(delta === null && usage ? { usage: usageOut(usage) } : {}),
+  };
+  return `data: ${JSON.stringify(chunk)}\n\n`;
+}
+
+/** SSE `data:` line carrying an error, for failures after the stream has started */
+export function completionErrorChunk(message: string): string {
+  return `data: ${JSON.stringify({ error: { message, type: "server_error", code: null } })}\n\n`;
+}
+
+/** OpenAI-style error body */
+export function openaiError(status: number, message: string, type = "invalid_request_error"): Response {
+  return new Response(JSON.stringify({ error: { message, type, code: null } }), {
+    status,
+    headers: { "content-type": "application/json" },
+  });
+}
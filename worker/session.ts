@@ -1,22 +1,125 @@
 /// <reference lib="webworker" />
 import type { Env } from "../worker-configuration";
 
-function validSid(s: string | null): string | null {
-  return s && /^[a-z0-9-]{8,}$/.test(s) ? s : null;
+export const DEFAULT_TTL_HOURS = 24;
+
+/** Session retention (SESSION_TTL_HOURS var): idle sessions are wiped after this long */
+export function sessionTtlSeconds(env: Env): number {
+  const h = Number(env.SESSION_TTL_HOURS);
+  return Math.round((Number.isFinite(h) && h > 0 ? h : DEFAULT_TTL_HOURS) * 3600);
 }
 
-export async function getOrCreateSession(request: Request, env: Env): Promise<Response> {
-  const url = new URL(request.url);
-  const supplied = validSid(url.searchParams.get("sid"));        // <-- allow client to pin sid
+/** Delete every R2 object under files/<sid>/; returns how many were removed */
+export async function purgeSessionFiles(env: Env, sid: string): Promise<number> {
+  let removed = 0;
+  let cursor: string | undefined;
+  do {
+    const page = await env.agent_browser_uploads.list({ prefix: `files/${sid}/`, cursor, limit: 1000 });
+    if (page.objects.length) {
+      await env.agent_browser_uploads.delete(page.objects.map((o) => o.key));
+      removed += page.objects.length;
+    }
+    cursor = page.truncated ? page.cursor : undefined;
+  } while (cursor);
+  return removed;
+}
+
+// ---------------------------------------------------------------------------
+// Signed session tokens: `<sid>.<exp>.<sig>`, sig = HMAC-SHA256(SESSION_SECRET,
+// "<sid>.<exp>") in base64url. The worker picks the sid; clients can only
+// present a token it issued.
+
+const COOKIE = "cf_session";
+const enc = new TextEncoder();
+
+function b64url(bytes: ArrayBuffer): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes))).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromB64url(s: string): Uint8Array | null {
+  try {
+    const bin = atob(s.replace(/-/g, "+").replace(/_/g, "/"));
+    return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+async function hmacKey(secret: string): Promise<CryptoKey> {
+  return crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign", "verify"]);
+}
+
+/** base64url HMAC-SHA256 of `data` under SESSION_SECRET (callers check the secret is set) */
+export async function signHmac(env: Env, data: string): Promise<string> {
+  return b64url(await crypto.subtle.sign("HMAC", await hmacKey(env.SESSION_SECRET!), enc.encode(data)));
+}
+
+export async function verifyHmac(env: Env, data: string, sig: string): Promise<boolean> {
+  const bytes = fromB64url(sig);
+  if (!bytes || !env.SESSION_SECRET) return false;
+  return crypto.subtle.verify("HMAC", await hmacKey(env.SESSION_SECRET), bytes, enc.encode(data));
+}
+
+export async function signSessionToken(env: Env, sid: string, exp: number): Promise<string> {
+  return `${sid}.${exp}.${await signHmac(env, `${sid}.${exp}`)}`;
+}
+
+/** The session a token grants, or null if it is malformed, forged or expired */
+export async function verifySessionToken(env: Env, token: string | null | undefined): Promise<{ sid: string; exp: number } | null> {
+  if (!token || !env.SESSION_SECRET) return null;
+  const m = token.match(/^([a-z0-9-]{8,64})\.(\d{10})\.([A-Za-z0-9_-]+)$/);
+  if (!m) return null;
+  const [, sid, expStr, sigStr] = m;
+  const exp = Number(expStr);
+  if (exp * 1000 <= Date.now()) return null;
+  return (await verifyHmac(env, `${sid}.${exp}`, sigStr)) ? { sid, exp } : null;
+}
+
+/** Token from the session cookie, or `Authorization: Bearer` for non-browser clients */
+export function readSessionToken(request: Request): string | null {
+  const auth = request.headers.get("Authorization");
+  if (auth?.startsWith("Bearer ")) return auth.slice(7).trim();
   const cookie = request.headers.get("Cookie") || "";
-  const existing = cookie.match(/cf_session=([a-z0-9-]+)/)?.[1];
+  return cookie.match(new RegExp(`(?:^|;\\s*)${COOKIE}=([^;]+)`))?.[1] ?? null;
+}
+
+/**
+ * Gate for /agents/<agent>/<sid>: the request must carry a valid token for
+ * exactly that sid. Returns an error response, or undefined to let it through.
+ */
+export async function authorizeSession(request: Request, env: Env, sid: string): Promise<Response | undefined> {
+  if (!env.SESSION_SECRET) return new Response("Session signing is not configured", { status: 503 });
+  const claims = await verifySessionToken(env, readSessionToken(request));
+  if (!claims) return new Response("Unauthorized", { status: 401 });
+  if (claims.sid !== sid) return new Response("Forbidden", { status: 403 });
+  return undefined;
+}
+
+/**
+ * GET /api/session: keep the caller's session if its token verifies (re-signed
+ * with a fresh expiry), otherwise start a new one. Sets the HttpOnly cookie the
+ * WS upgrade is checked against and returns the sid to connect to.
+ */
+export async function getOrCreateSession(request: Request, env: Env): Promise<Response> {
+  if (!env.SESSION_SECRET) {
+    console.log("[session] SESSION_SECRET is not set");
+    return new Response(JSON.stringify({ error: "Session signing is not configured" }), {
+      status: 503,
+      headers: { "content-type": "application/json" },
+    });
+  }
 
-  const sessionId = supplied ?? existing ?? crypto.randomUUID();
-  await env.agent_sessions.put(`sess:${sessionId}`, "1", { expirationTtl: 86_400 });
+  const existing = await verifySessionToken(env, readSessionToken(request));
+  const sessionId = existing?.sid ?? crypto.randomUUID();
+  const ttl = sessionTtlSeconds(env);
+  const exp = Math.floor(Date.now() / 1000) + ttl;
+  const token = await signSessionToken(env, sessionId, exp);
+  await env.agent_sessions.put(`sess:${sessionId}`, "1", { expirationTtl: Math.max(60, ttl) });
 
-  const headers = new Headers({ "content-type": "application/json" });
-  headers.append("Set-Cookie", `cf_session=${sessionId}; Path=/; Max-Age=86400; SameSite=Lax; HttpOnly`);
+  const secure = new URL(request.url).protocol === "https:" ? "; Secure" : "";
+  const headers = new Headers({ "content-type": "application/json", "cache-control": "no-store" });
+  headers.append("Set-Cookie", `${COOKIE}=${token}; Path=/; Max-Age=${ttl}; SameSite=Lax; HttpOnly${secure}`);
 
-  console.log("[session] issued", { sessionId, supplied: Boolean(supplied), reused: Boolean(existing) });
-  return new Response(JSON.stringify({ sessionId }), { headers });
+  console.log("[session] issued", { sessionId, renewed: Boolean(existing) });
+  return new Response(JSON.stringify({ sessionId, token, expiresAt: exp * 1000 }), { headers });
 }
@@ -0,0 +1,89 @@
+/// <reference lib="webworker" />
+
+/**
+ * Per-session settings, sent as {type:"settings", settings} and kept in agent
+ * state. Every field is optional; unset means the deployment default.
+ */
+
+export type SessionSettings = {
+  systemPrompt?: string; // appended to the built-in system prompt
+  persona?: string;      // who the assistant is, e.g. "a terse SRE on call"
+  temperature?: number;  // chat answers and tool summaries (tool selection stays low)
+  maxTokens?: number;    // chat answers and tool summaries
+  language?: string;     // reply language, e.g. "French"
+};
+
+export const SETTINGS_LIMITS = {
+  systemPrompt: 2000,
+  persona: 300,
+  language: 40,
+  temperature: { min: 0, max: 2 },
+  maxTokens: { min: 16, max: 4096 },
+} as const;
+
+type Check = { ok: true; settings: SessionSettings } | { ok: false; error: string };
+
+function text(v: unknown, field: string, max: number): string | undefined {
+  if (v === undefined || v === null) return undefined;
+  if (typeof v !== "string") throw new Error(`${field} must be a string`);
+  const s = v.trim();
+  if (s.length > max) throw new Error(`${field} is limited to ${max} characters`);
+  return s || undefined;
+}
+
+function num(v: unknown, field: string, lo: number, hi: number, int = false): number | undefined {
+  if (v === undefined || v === null || v === "") return undefined;
+  const n = typeof v === "string" ? Number(v) : v;
+  if (typeof n !== "number" || !Number.isFinite(n)) throw new Error(`${field} must be a number`);
+  if (int && !Number.isInteger(n)) throw new Error(`${field} must be a whole number`);
+  if (n < lo || n > hi) throw new Error(`${field} must be between ${lo} and ${hi}`);
+  return n;
+}
+
+/** Validate a client payload; unknown fields are ignored, bad values rejected (not clamped) */
+export function parseSettings(raw: unknown): Check {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "settings must be an object" };
+  const r = raw as Record<string, unknown>;
+  const L = SETTINGS_LIMITS;
+  try {
+    const settings: SessionSettings = {
+      systemPrompt: text(r.systemPrompt, "systemPrompt", L.systemPrompt),
+      persona: text(r.persona, "persona", L.persona),
+      temperature: num(r.temperature, "temperature", L.temperature.min, L.temperature.max),
+      maxTokens: num(r.maxTokens, "maxTokens", L.maxTokens.min, L.maxTokens.max, true),
+      language: text(r.language, "language", L.language),
+    };
+    // drop unset keys so state stays compact
+    for (const k of Object.keys(settings) as Array<keyof SessionSettings>) {
+      if (settings[k] === undefined) delete settings[k];
+    }
+    return { ok: true, settings };
+  } catch (e) {
+    return { ok: false, error: e instanceof Error ? e.message : String(e) };
+  }
+}
+
+/** Built-in behavior + persona, reply language and the session's addendum */
+export function composeSystemPrompt(base: string, s: SessionSettings | undefined): string {
+  const parts = [base];
+  if (s?.persona) parts.push(`Persona: respond as ${s.persona}. The tool rules still apply.`);
+  if (s?.language) parts.push(`Always reply in ${s.language}, whatever language the user writes in.`);
+  if (s?.systemPrompt) parts.push(`Additional instructions for this session:\n${s.systemPrompt}`);
+  return parts.join("\n\n");
+}
+
+/**
+ * Sampling for a summary call: the session's temperature / maxTokens when set
+ * (kept within SETTINGS_LIMITS), else the call's own defaults.
+ */
+export function summarySampling(
+  s: SessionSettings | undefined,
+  defaults: { temperature: number; maxTokens: number }
+): { temperature: number; max_tokens: number } {
+  const L = SETTINGS_LIMITS;
+  const clamp = (n: number, lo: number, hi: number) => Math.min(hi, Math.max(lo, n));
+  return {
+    temperature: clamp(s?.temperature ?? defaults.temperature, L.temperature.min, L.temperature.max),
+    max_tokens: Math.round(clamp(s?.maxTokens ?? defaults.maxTokens, L.maxTokens.min, L.maxTokens.max)),
+  };
+}
@@ -0,0 +1,60 @@
+/// <reference lib="webworker" />
+
+/**
+ * Small coercers for model-produced tool arguments. Models send numbers as
+ * strings, booleans as "true", and occasionally invent fields; keep only what
+ * the tool understands.
+ */
+
+export function asString(v: unknown): string | undefined {
+  return typeof v === "string" && v.trim() ? v.trim() : undefined;
+}
+
+export function asNumber(v: unknown): number | undefined {
+  const n = typeof v === "string" ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) ? n : undefined;
+}
+
+export function asInt(v: unknown, lo: number, hi: number): number | undefined {
+  const n = asNumber(v);
+  return n === undefined ? undefined : Math.min(hi, Math.max(lo, Math.round(n)));
+}
+
+export function asBool(v: unknown): boolean | undefined {
+  if (typeof v === "boolean") return v;
+  if (v === "true") return true;
+  if (v === "false") return false;
+  return undefined;
+}
+
+export function asEnum<T extends string>(v: unknown, allowed: readonly T[]): T | undefined {
+  return typeof v === "string" && (allowed as readonly string[]).includes(v) ? (v as T) : undefined;
+}
+
+export function asRecord(v: unknown): Record<string, unknown> | undefined {
+  return v && typeof v === "object" && !Array.isArray(v) ? (v as Record<string, unknown>) : undefined;
+}
+
+export const WAIT_UNTIL = ["load", "domcontentloaded", "networkidle0", "networkidle2"] as const;
+
+export function asViewport(v: unknown): { width: number; height: number } | undefined {
+  const r = asRecord(v);
+  const width = asInt(r?.width, 320, 3840);
+  const height = asInt(r?.height, 240, 2160);
+  return width && height ? { width, height } : undefined;
+}
+
+/**
+ * A page URL the user actually supplied. Rejects empty values and documentation
+ * placeholders (example.com & co.) unless the user typed them.
+ */
+export function asPageUrl(v: unknown, userText: string): string | undefined {
+  const raw = asString(v);
+  if (!raw) return undefined;
+  let host: string;
+  try { host = new URL(/^https?:\/\//i.test(raw) ? raw : `https://${raw}`).hostname; } catch { return undefined; }
+  if (!host.includes(".")) return undefined;
+  const placeholder = /(^|\.)example\.(com|org|net)$/i.test(host);
+  if (placeholder && !userText.toLowerCase().includes(host.replace(/^www\./, "").toLowerCase())) return undefined;
+  return raw;
+}
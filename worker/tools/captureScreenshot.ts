@@ -1,6 +1,10 @@
 /// <reference lib="webworker" />
 import puppeteer, { type Page } from "@cloudflare/puppeteer";
 import type { Env } from "../../worker-configuration";
+import type { AgentTool, CaptureMetrics, NavAttempt, ToolEmit } from "./types";
+import { summarizeCaptureOutcome } from "./summarize";
+import { signFileUrl, storeArtifact } from "../files";
+import { asBool, asEnum, asInt, asPageUrl, asViewport, WAIT_UNTIL } from "./args";
 
 export type ScreenshotArgs = {
   url: string;
@@ -10,7 +14,7 @@ export type ScreenshotArgs = {
   timeoutMs?: number; // default 20000
 };
 
-type ToolErrorCode = "BAD_URL" | "NAV_TIMEOUT" | "NAV_FAIL" | "CAPTURE_FAIL" | "UPLOAD_FAIL";
+type ToolErrorCode = "BAD_URL" | "NAV_TIMEOUT" | "NAV_FAIL" | "CAPTURE_FAIL" | "UPLOAD_FAIL" | "QUOTA_EXCEEDED" | "CANCELLED";
 
 const SS_TAG = "[screenshot]";
 
@@ -18,7 +22,8 @@ export type ScreenshotResult =
   | {
       ok: true;
       kind: "screenshot";
-      url: string;                 // /files/<sid>/<uuid>.png
+      url: string;                 // signed /files/<sid>/<uuid>.png?iat=…&exp=…&sig=… (see files.ts)
+      urlExpiresAt: number;        // epoch ms; the agent re-signs persisted results
       r2Key: string;               // files/<sid>/<uuid>.png
       contentType: "image/png";
       bytes: number;
@@ -26,11 +31,13 @@ export type ScreenshotResult =
       height: number;
       sourceUrl: string;           // final navigated URL
       viewport: { width: number; height: number };
+      metrics: CaptureMetrics;
     }
   | {
       ok: false;
       error: string;
-      code: "BAD_URL" | "NAV_TIMEOUT" | "NAV_FAIL" | "CAPTURE_FAIL" | "UPLOAD_FAIL";
+      code: ToolErrorCode;
+      metrics?: CaptureMetrics;    // set once the browser launched
     };
 
 function normalizeUrl(input: string): URL | null {
@@ -65,7 +72,9 @@ export async function captureScreenshot(
   env: Env,
   sid: string,
   args: ScreenshotArgs,
-  emit?: (msg: string) => void
+  emit?: ToolEmit,
+  signal?: AbortSignal,
+  messageId?: number | null
 ): Promise<ScreenshotResult> {
   const url0 = normalizeUrl(args.url);
   if (!url0) return { ok: false, error: "Invalid URL", code: "BAD_URL" };
@@ -86,21 +95,38 @@ export async function captureScreenshot(
     timeoutMs: timeout,
   });
 
-  emit?.("Launching browser…");
+  emit?.("Launching browser…", "navigate");
   const t0 = Date.now();
+  if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED" };
   const browser = await puppeteer.launch(env.BROWSER);
+
+  // Cancel → close the browser; in-flight page calls then reject and we report CANCELLED
+  const onAbort = () => {
+    console.log(SS_TAG, "cancelled; closing browser");
+    browser.close().catch(() => { /* ignore */ });
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
   console.log(SS_TAG, "launching browser…", { t0 });
 
   // Timings
-  let navMs = 0;
   let settleMs = 0;
   let captureMs = 0;
   let uploadMs = 0;
 
   // Track each nav attempt
-  const navAttempts: Array<{ waitUntil: string; ms: number; outcome: "ok" | "timeout" | "fail" }> = [];
+  const navAttempts: NavAttempt[] = [];
+  const metrics = (): CaptureMetrics => ({
+    totalMs: Date.now() - t0,
+    navMs: navAttempts.reduce((a, b) => a + b.ms, 0),
+    settleMs,
+    captureMs,
+    uploadMs,
+    navAttempts: navAttempts.length,
+    attempts: navAttempts,
+  });
 
   async function tryGo(page: Page, dest: URL, wait: ScreenshotArgs["waitUntil"]): Promise<true | "timeout" | "fail"> {
+    if (signal?.aborted) return "fail";
     const tic = Date.now();
     console.log(SS_TAG, "navigating", { to: dest.toString(), waitUntil: wait, timeout });
     try {
@@ -134,7 +160,7 @@ export async function captureScreenshot(
     page.on("pageerror", (e) => console.log(SS_TAG, "pageerror", e.message));
     page.on("requestfailed", (r) => console.log(SS_TAG, "requestfailed", r.url(), r.failure()?.errorText));
 
-    emit?.(`Navigating (${wantWait})…`);
+    emit?.(`Navigating (${wantWait})…`, "navigate");
 
     let url = url0;
     let ok = await tryGo(page, url, wantWait);
@@ -144,7 +170,7 @@ export async function captureScreenshot(
       if (ok !== true) {
         const ww = withWww(url);
         if (ww) {
-          emit?.("Retrying with www…");
+          emit?.("Retrying with www…", "navigate");
           url = ww;
           ok = await tryGo(page, url, wantWait);
           if (ok !== true) ok = await tryGo(page, url, "load");
@@ -152,16 +178,15 @@ export async function captureScreenshot(
         }
       }
     }
+    if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED", metrics: metrics() };
     if (ok !== true) {
       const code = ok === "timeout" ? "NAV_TIMEOUT" : "NAV_FAIL";
       emit?.(`Navigation failed (${code})`);
       console.log(SS_TAG, "navigation failed", { code, attempts: navAttempts });
-      return { ok: false, error: code === "NAV_TIMEOUT" ? "Navigation timed out" : "Navigation failed", code };
+      return { ok: false, error: code === "NAV_TIMEOUT" ? "Navigation timed out" : "Navigation failed", code, metrics: metrics() };
     }
 
-    navMs = navAttempts.reduce((a, b) => a + b.ms, 0);
-
-    emit?.("Settling…");
+    emit?.("Settling…", "settle");
     const settleStart = Date.now();
     // (Do not use `document` here to avoid DOM lib issues)
     // Just a small extra pause to let SPAs paint:
@@ -176,7 +201,7 @@ export async function captureScreenshot(
     }
     console.log(SS_TAG, "settled", { ms: settleMs, finalUrl, redirected, title });
 
-    emit?.("Capturing screenshot…");
+    emit?.("Capturing screenshot…", "capture");
     const capStart = Date.now();
     const ab = (await page.screenshot({
       type: "png",
@@ -186,33 +211,27 @@ export async function captureScreenshot(
     captureMs = Date.now() - capStart;
     console.log(SS_TAG, "capture ok", { bytes: ab.byteLength, ms: captureMs });
 
+    if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED", metrics: metrics() };
     const key = `files/${sid}/${crypto.randomUUID()}.png`;
-    emit?.("Uploading…");
+    emit?.("Uploading…", "upload");
     const upStart = Date.now();
-    try {
-      await env.agent_browser_uploads.put(key, ab, { httpMetadata: { contentType: "image/png" } });
-    } catch {
-      console.log(SS_TAG, "upload failed", { key });
-      return { ok: false, error: "Upload failed", code: "UPLOAD_FAIL" };
-    }
+    const stored = await storeArtifact(env, key, ab, "image/png", { tool: "captureScreenshot", sourceUrl: finalUrl, messageId });
     uploadMs = Date.now() - upStart;
+    if (!stored.ok) {
+      console.log(SS_TAG, "upload failed", { key, code: stored.code });
+      return { ok: false, error: stored.error, code: stored.code, metrics: metrics() };
+    }
     console.log(SS_TAG, "upload ok", { key, ms: uploadMs });
 
-    const totalMs = Date.now() - t0;
-    console.log(SS_TAG, "done", {
-      totalMs,
-      navMs,
-      settleMs,
-      captureMs,
-      uploadMs,
-      attempts: navAttempts,
-      finalUrl,
-    });
+    const link = await signFileUrl(env, key);
+    const timings = metrics();
+    console.log(SS_TAG, "done", { ...timings, finalUrl });
 
     const result: ScreenshotResult = {
       ok: true,
       kind: "screenshot",
-      url: `/${key}`,
+      url: link.url,
+      urlExpiresAt: link.expiresAt,
       r2Key: key,
       contentType: "image/png",
       bytes: ab.byteLength,
@@ -220,15 +239,81 @@ export async function captureScreenshot(
       height: viewport.height,
       sourceUrl: finalUrl,
       viewport,
+      metrics: timings,
     };
     return result;
   } catch (e) {
+    if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED", metrics: metrics() };
     const msg = (e as Error)?.message || "Capture error";
     console.log(SS_TAG, "error", msg);
     const code: ToolErrorCode = msg.toLowerCase().includes("nav") ? "NAV_FAIL" : "CAPTURE_FAIL";
-    return { ok: false, error: code === "NAV_FAIL" ? "Navigation failed" : "Capture failed", code };
+    return { ok: false, error: code === "NAV_FAIL" ? "Navigation failed" : "Capture failed", code, metrics: metrics() };
   } finally {
+    signal?.removeEventListener("abort", onAbort);
     console.log(SS_TAG, "closing browser");
     try { await browser.close(); } catch { /* ignore */ }
   }
 }
+
+/** Tool schema we show the planner */
+export const captureScreenshotToolSchema = {
+  type: "function",
+  function: {
+    name: "captureScreenshot",
+    description: "Take a PNG screenshot of a web page. Only call with a URL or domain the user actually gave.",
+    parameters: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "Page URL or bare domain, e.g. 'https://example.com' or 'cloudflare.com'." },
+        fullPage: { type: "boolean", description: "Capture the whole scrollable page (default true)" },
+        viewport: {
+          type: "object",
+          properties: {
+            width: { type: "integer", description: "Viewport width in px (default 1280)" },
+            height: { type: "integer", description: "Viewport height in px (default 800)" },
+          },
+          required: ["width", "height"],
+        },
+        waitUntil: {
+          type: "string",
+          enum: ["load", "domcontentloaded", "networkidle0", "networkidle2"],
+          description: "Navigation event to wait for (default networkidle0)",
+        },
+        timeoutMs: { type: "integer", description: "Navigation timeout in ms, 1000–60000 (default 20000)" },
+      },
+      required: ["url"],
+      additionalProperties: false,
+    },
+  },
+} as const;
+
+export const screenshotTool: AgentTool<ScreenshotArgs, ScreenshotResult> = {
+  name: "screenshot",
+  title: "Screenshot",
+  schema: captureScreenshotToolSchema,
+  steps: [
+    { key: "normalize", label: "Normalize URL" },
+    { key: "navigate",  label: "Open page" },
+    { key: "settle",    label: "Settle" },
+    { key: "capture",   label: "Capture" },
+    { key: "upload",    label: "Upload" },
+  ],
+  parseArgs(raw, userText) {
+    const url = asPageUrl(raw.url, userText);
+    if (!url) return { ok: false, question: "Which page should I capture? Please share the URL or domain." };
+    return {
+      ok: true,
+      args: {
+        url,
+        fullPage: asBool(raw.fullPage),
+        viewport: asViewport(raw.viewport),
+        waitUntil: asEnum(raw.waitUntil, WAIT_UNTIL),
+        timeoutMs: asInt(raw.timeoutMs, 1000, 60000),
+      },
+    };
+  },
+  preamble: (args) =>
+    `Okay — I’ll capture a ${args.fullPage === false ? "" : "full-page "}screenshot of ${args.url || "that page"}…`,
+  execute: (ctx, args, emit) => captureScreenshot(ctx.env, ctx.sid, args, emit, ctx.signal, ctx.messageId),
+  summarize: (ctx, userText, result) => summarizeCaptureOutcome(ctx, userText, "screenshot", result),
+};
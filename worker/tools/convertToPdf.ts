@@ -1,6 +1,10 @@
 /// <reference lib="webworker" />
 import puppeteer, { type Page } from "@cloudflare/puppeteer";
 import type { Env } from "../../worker-configuration";
+import type { AgentTool, CaptureMetrics, NavAttempt, ToolEmit } from "./types";
+import { summarizeCaptureOutcome } from "./summarize";
+import { signFileUrl, storeArtifact } from "../files";
+import { asBool, asEnum, asInt, asNumber, asPageUrl, asRecord, asViewport, WAIT_UNTIL } from "./args";
 
 export type PdfArgs = {
   url: string;
@@ -10,7 +14,7 @@ export type PdfArgs = {
   pdf?: { format?: "A4" | "Letter" | "Legal" | "Tabloid" | "A3" | "A5"; landscape?: boolean; scale?: number };
 };
 
-type ToolErrorCode = "BAD_URL" | "NAV_TIMEOUT" | "NAV_FAIL" | "CAPTURE_FAIL" | "UPLOAD_FAIL";
+type ToolErrorCode = "BAD_URL" | "NAV_TIMEOUT" | "NAV_FAIL" | "CAPTURE_FAIL" | "UPLOAD_FAIL" | "QUOTA_EXCEEDED" | "CANCELLED";
 
 const PDF_TAG = "[pdf]";
 
@@ -18,16 +22,19 @@ export type PdfResult =
   | {
       ok: true;
       kind: "pdf";
-      url: string;                 // /files/<sid>/<uuid>.pdf
+      url: string;                 // signed /files/<sid>/<uuid>.pdf?iat=…&exp=…&sig=… (see files.ts)
+      urlExpiresAt: number;        // epoch ms; the agent re-signs persisted results
       r2Key: string;               // files/<sid>/<uuid>.pdf
       contentType: "application/pdf";
       bytes: number;
       sourceUrl: string;
+      metrics: CaptureMetrics;
     }
   | {
       ok: false;
       error: string;
-      code: "BAD_URL" | "NAV_TIMEOUT" | "NAV_FAIL" | "CAPTURE_FAIL" | "UPLOAD_FAIL";
+      code: ToolErrorCode;
+      metrics?: CaptureMetrics;    // set once the browser launched
     };
 
 function normalizeUrl(input: string): URL | null {
@@ -62,7 +69,9 @@ export async function convertToPdf(
   env: Env,
   sid: string,
   args: PdfArgs,
-  emit?: (msg: string) => void
+  emit?: ToolEmit,
+  signal?: AbortSignal,
+  messageId?: number | null
 ): Promise<PdfResult> {
   const url0 = normalizeUrl(args.url);
   if (!url0) return { ok: false, error: "Invalid URL", code: "BAD_URL" };
@@ -86,20 +95,37 @@ export async function convertToPdf(
     pdf: pdfOpts,
   });
 
-  emit?.("Launching browser…");
+  emit?.("Launching browser…", "navigate");
   const t0 = Date.now();
+  if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED" };
   const browser = await puppeteer.launch(env.BROWSER);
+
+  // Cancel → close the browser; in-flight page calls then reject and we report CANCELLED
+  const onAbort = () => {
+    console.log(PDF_TAG, "cancelled; closing browser");
+    browser.close().catch(() => { /* ignore */ });
+  };
+  signal?.addEventListener("abort", onAbort, { once: true });
   console.log(PDF_TAG, "launching browser…", { t0 });
 
   // Timings
-  let navMs = 0;
   let settleMs = 0;
   let renderMs = 0;
   let uploadMs = 0;
 
-  const navAttempts: Array<{ waitUntil: string; ms: number; outcome: "ok" | "timeout" | "fail" }> = [];
+  const navAttempts: NavAttempt[] = [];
+  const metrics = (): CaptureMetrics => ({
+    totalMs: Date.now() - t0,
+    navMs: navAttempts.reduce((a, b) => a + b.ms, 0),
+    settleMs,
+    renderMs,
+    uploadMs,
+    navAttempts: navAttempts.length,
+    attempts: navAttempts,
+  });
 
   async function tryGo(page: Page, dest: URL, wait: NonNullable<PdfArgs["waitUntil"]>): Promise<true | "timeout" | "fail"> {
+    if (signal?.aborted) return "fail";
     const tic = Date.now();
     console.log(PDF_TAG, "navigating", { to: dest.toString(), waitUntil: wait, timeout });
     try {
@@ -133,7 +159,7 @@ export async function convertToPdf(
     page.on("pageerror", (e) => console.log(PDF_TAG, "pageerror", e.message));
     page.on("requestfailed", (r) => console.log(PDF_TAG, "requestfailed", r.url(), r.failure()?.errorText));
 
-    emit?.(`Navigating (${wantWait})…`);
+    emit?.(`Navigating (${wantWait})…`, "navigate");
 
     let url = url0;
     let ok = await tryGo(page, url, wantWait);
@@ -143,7 +169,7 @@ export async function convertToPdf(
       if (ok !== true) {
         const ww = withWww(url);
         if (ww) {
-          emit?.("Retrying with www…");
+          emit?.("Retrying with www…", "navigate");
           url = ww;
           ok = await tryGo(page, url, wantWait);
           if (ok !== true) ok = await tryGo(page, url, "load");
@@ -151,16 +177,15 @@ export async function convertToPdf(
         }
       }
     }
+    if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED", metrics: metrics() };
     if (ok !== true) {
       const code = ok === "timeout" ? "NAV_TIMEOUT" : "NAV_FAIL";
       emit?.(`Navigation failed (${code})`);
       console.log(PDF_TAG, "navigation failed", { code, attempts: navAttempts });
-      return { ok: false, error: code === "NAV_TIMEOUT" ? "Navigation timed out" : "Navigation failed", code };
+      return { ok: false, error: code === "NAV_TIMEOUT" ? "Navigation timed out" : "Navigation failed", code, metrics: metrics() };
     }
 
-    navMs = navAttempts.reduce((a, b) => a + b.ms, 0);
-
-    emit?.("Settling…");
+    emit?.("Settling…", "settle");
     const settleStart = Date.now();
     await new Promise((r) => setTimeout(r, 1200));
     settleMs = Date.now() - settleStart;
@@ -171,7 +196,7 @@ export async function convertToPdf(
     try { title = await page.title(); } catch { /* ignore */ }
     console.log(PDF_TAG, "settled", { ms: settleMs, finalUrl, redirected, title });
 
-    emit?.("Rendering PDF…");
+    emit?.("Rendering PDF…", "render");
     const renderStart = Date.now();
     const pdfBuf = (await page.pdf({
       format: pdfOpts.format,
@@ -183,45 +208,119 @@ export async function convertToPdf(
     renderMs = Date.now() - renderStart;
     console.log(PDF_TAG, "render ok", { bytes: pdfBuf.byteLength, ms: renderMs });
 
+    if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED", metrics: metrics() };
     const key = `files/${sid}/${crypto.randomUUID()}.pdf`;
-    emit?.("Uploading…");
+    emit?.("Uploading…", "upload");
     const upStart = Date.now();
-    try {
-      await env.agent_browser_uploads.put(key, pdfBuf, { httpMetadata: { contentType: "application/pdf" } });
-    } catch {
-      console.log(PDF_TAG, "upload failed", { key });
-      return { ok: false, error: "Upload failed", code: "UPLOAD_FAIL" };
-    }
+    const stored = await storeArtifact(env, key, pdfBuf, "application/pdf", { tool: "convertToPdf", sourceUrl: finalUrl, messageId });
     uploadMs = Date.now() - upStart;
+    if (!stored.ok) {
+      console.log(PDF_TAG, "upload failed", { key, code: stored.code });
+      return { ok: false, error: stored.error, code: stored.code, metrics: metrics() };
+    }
     console.log(PDF_TAG, "upload ok", { key, ms: uploadMs });
 
-    const totalMs = Date.now() - t0;
-    console.log(PDF_TAG, "done", {
-      totalMs,
-      navMs,
-      settleMs,
-      renderMs,
-      uploadMs,
-      attempts: navAttempts,
-      finalUrl,
-    });
+    const link = await signFileUrl(env, key);
+    const timings = metrics();
+    console.log(PDF_TAG, "done", { ...timings, finalUrl });
 
     return {
       ok: true,
       kind: "pdf",
-      url: `/${key}`,
+      url: link.url,
+      urlExpiresAt: link.expiresAt,
       r2Key: key,
       contentType: "application/pdf",
       bytes: pdfBuf.byteLength,
       sourceUrl: finalUrl,
+      metrics: timings,
     };
   } catch (e) {
+    if (signal?.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED", metrics: metrics() };
     const msg = (e as Error)?.message || "Capture error";
     console.log(PDF_TAG, "error", msg);
     const code: ToolErrorCode = msg.toLowerCase().includes("nav") ? "NAV_FAIL" : "CAPTURE_FAIL";
-    return { ok: false, error: code === "NAV_FAIL" ? "Navigation failed" : "Capture failed", code };
+    return { ok: false, error: code === "NAV_FAIL" ? "Navigation failed" : "Capture failed", code, metrics: metrics() };
   } finally {
+    signal?.removeEventListener("abort", onAbort);
     console.log(PDF_TAG, "closing browser");
     try { await browser.close(); } catch { /* ignore */ }
   }
 }
+
+/** Tool schema we show the planner */
+export const convertToPdfToolSchema = {
+  type: "function",
+  function: {
+    name: "convertToPdf",
+    description: "Render a web page to a PDF file. Only call with a URL or domain the user actually gave.",
+    parameters: {
+      type: "object",
+      properties: {
+        url: { type: "string", description: "Page URL or bare domain, e.g. 'https://example.com' or 'cloudflare.com'." },
+        pdf: {
+          type: "object",
+          properties: {
+            format: { type: "string", enum: ["A4", "Letter", "Legal", "Tabloid", "A3", "A5"], description: "Paper size (default A4)" },
+            landscape: { type: "boolean", description: "Landscape orientation (default false)" },
+            scale: { type: "number", description: "Render scale, 0.1–2 (default 1)" },
+          },
+        },
+        viewport: {
+          type: "object",
+          properties: {
+            width: { type: "integer", description: "Viewport width in px (default 1280)" },
+            height: { type: "integer", description: "Viewport height in px (default 800)" },
+          },
+          required: ["width", "height"],
+        },
+        waitUntil: {
+          type: "string",
+          enum: ["load", "domcontentloaded", "networkidle0", "networkidle2"],
+          description: "Navigation event to wait for (default networkidle0)",
+        },
+        timeoutMs: { type: "integer", description: "Navigation timeout in ms, 1000–60000 (default 20000)" },
+      },
+      required: ["url"],
+      additionalProperties: false,
+    },
+  },
+} as const;
+
+export const pdfTool: AgentTool<PdfArgs, PdfResult> = {
+  name: "convertToPdf",
+  title: "PDF",
+  schema: convertToPdfToolSchema,
+  steps: [
+    { key: "normalize", label: "Normalize URL" },
+    { key: "navigate",  label: "Open page" },
+    { key: "settle",    label: "Settle" },
+    { key: "render",    label: "Render PDF" },
+    { key: "upload",    label: "Upload" },
+  ],
+  parseArgs(raw, userText) {
+    const url = asPageUrl(raw.url, userText);
+    if (!url) return { ok: false, question: "Which page should I convert to PDF? Please share the URL or domain." };
+    // Accept both the nested `pdf` object and flat format/landscape/scale from looser models
+    const pdf = asRecord(raw.pdf) ?? raw;
+    const scale = asNumber(pdf.scale);
+    return {
+      ok: true,
+      args: {
+        url,
+        viewport: asViewport(raw.viewport),
+        waitUntil: asEnum(raw.waitUntil, WAIT_UNTIL),
+        timeoutMs: asInt(raw.timeoutMs, 1000, 60000),
+        pdf: {
+          format: asEnum(pdf.format, ["A4", "Letter", "Legal", "Tabloid", "A3", "A5"] as const),
+          landscape: asBool(pdf.landscape),
+          scale: scale === undefined ? undefined : Math.min(2, Math.max(0.1, scale)),
+        },
+      },
+    };
+  },
+  preamble: (args) =>
+    `Got it — I’ll render a${args.pdf?.landscape ? " landscape" : ""} PDF of ${args.url || "that page"}…`,
+  execute: (ctx, args, emit) => convertToPdf(ctx.env, ctx.sid, args, emit, ctx.signal, ctx.messageId),
+  summarize: (ctx, userText, result) => summarizeCaptureOutcome(ctx, userText, "convertToPdf", result),
+};
@@ -1,4 +1,7 @@
 /// <reference lib="webworker" />
+import type { AgentTool } from "./types";
+import { asEnum, asInt, asNumber, asString } from "./args";
+import { summarizeWeatherOutcome } from "./summarize";
 
 /**
  * Open-Meteo geocoding + forecast wrapper used by the agent.
@@ -74,7 +77,8 @@ export type WeatherArgs = {
   
   /** Resolve lat/lon via Open-Meteo geocoder if needed */
   async function geocodeIfNeeded(
-    args: WeatherArgs
+    args: WeatherArgs,
+    signal?: AbortSignal
   ): Promise<{ lat: number; lon: number; name: string; region?: string; country?: string } | null> {
     if (typeof args.latitude === "number" && typeof args.longitude === "number") {
       return { lat: args.latitude, lon: args.longitude, name: args.location ?? "location" };
@@ -88,7 +92,7 @@ export type WeatherArgs = {
     u.searchParams.set("language", "en");
     u.searchParams.set("format", "json");
   
-    const r = await fetch(u.toString());
+    const r = await fetch(u.toString(), { signal });
     if (!r.ok) return null;
   
     const j = (await r.json()) as OMGeoResponse; // ✅ correct type
@@ -150,10 +154,10 @@ export type WeatherArgs = {
     return { temp: "°C", precip: "mm" };
   }
   
-  export async function getWeather(args: WeatherArgs): Promise<WeatherResult> {
+  export async function getWeather(args: WeatherArgs, signal?: AbortSignal): Promise<WeatherResult> {
     try {
       // 1) Resolve coords
-      const place = await geocodeIfNeeded(args);
+      const place = await geocodeIfNeeded(args, signal);
       if (!place) return { ok: false, error: "Please provide a city/location I can find." };
   
       // 2) Build request
@@ -162,7 +166,7 @@ export type WeatherArgs = {
       const url = buildForecastUrl({ lat: place.lat, lon: place.lon, start, end, days: args.days, units: args.units });
   
       // 3) Fetch forecast
-      const r = await fetch(url.toString());
+      const r = await fetch(url.toString(), { signal });
       if (!r.ok) return { ok: false, error: `Weather API error (${r.status})` };
   
       const j = (await r.json()) as OMForecastResponse; // ✅ correct type, parsed once
@@ -207,11 +211,12 @@ export type WeatherArgs = {
   
       return res;
     } catch (e) {
+      if (signal?.aborted) return { ok: false, error: "Cancelled" };
       return { ok: false, error: (e as Error).message || "Unknown error" };
     }
   }
   
-  /** Tool schema we’ll show the model (keep in agent code too) */
+  /** Tool schema we’ll show the model */
   export const getWeatherToolSchema = {
     type: "function",
     function: {
@@ -232,4 +237,116 @@ export type WeatherArgs = {
       },
     },
   } as const;
-  
\ No newline at end of file
+  
+
+  /** Deterministic weekly summary with guaranteed numbers (no model call) */
+  export function summarizeWeather(result: WeatherResult): string {
+    if (!result.ok) return `I couldn't fetch the weather: ${result.error}`;
+
+    const days = result.daily.slice(0, Math.min(7, result.daily.length));
+    if (!days.length) return "I couldn't find a daily forecast for that range.";
+
+    // Compute weekly high/low + wettest day by precip probability
+    let weeklyHigh = Number.NEGATIVE_INFINITY;
+    let weeklyLow  = Number.POSITIVE_INFINITY;
+    let maxPop = -1;
+    let wetIdx = -1;
+
+    for (let i = 0; i < days.length; i++) {
+      const d = days[i];
+      if (Number.isFinite(d.tMax) && d.tMax > weeklyHigh) weeklyHigh = d.tMax;
+      if (Number.isFinite(d.tMin) && d.tMin < weeklyLow)  weeklyLow  = d.tMin;
+      if (Number.isFinite(d.pop)  && d.pop  > maxPop) { maxPop = d.pop; wetIdx = i; }
+    }
+
+    const hi = Number.isFinite(weeklyHigh) ? Math.round(weeklyHigh) : null;
+    const lo = Number.isFinite(weeklyLow)  ? Math.round(weeklyLow)  : null;
+    const pop = maxPop >= 0 ? Math.round(maxPop) : null;
+
+    const unitT = result.units.temp; // "°C" | "°F"
+    const placeName = [result.place.name, result.place.region, result.place.country].filter(Boolean).join(", ");
+
+    const wetISO = wetIdx >= 0 ? days[wetIdx].date : "";
+    const wetPretty =
+      wetISO
+        ? new Date(wetISO + "T00:00:00").toLocaleDateString("en-US", {
+            weekday: "long",
+            month: "long",
+            day: "numeric",
+          })
+        : null;
+
+    const parts: string[] = [];
+
+    // Line 1: Overall temps
+    if (hi !== null && lo !== null) {
+      parts.push(`Next week in ${placeName}, expect highs around ${hi}${unitT} and lows near ${lo}${unitT}.`);
+    } else if (hi !== null) {
+      parts.push(`Next week in ${placeName}, expect highs around ${hi}${unitT}.`);
+    } else if (lo !== null) {
+      parts.push(`Next week in ${placeName}, expect lows near ${lo}${unitT}.`);
+    } else {
+      parts.push(`Next week in ${placeName}, temperatures vary through the week.`);
+    }
+
+    // Line 2: Precipitation / wettest day
+    if (pop !== null && pop > 0) {
+      parts.push(
+        wetPretty
+          ? `Peak chance of precipitation is about ${pop}% on ${wetPretty}.`
+          : `Peak chance of precipitation is about ${pop}%.`
+      );
+    } else {
+      parts.push(`Rain risk looks low overall.`);
+    }
+
+    // Line 3: Packing note
+    if (hi !== null && lo !== null) {
+      const range = hi - lo;
+      if (pop !== null && pop >= 40) {
+        parts.push(`Pack layers and bring a small umbrella or rain jacket just in case.`);
+      } else if (range >= 10) {
+        parts.push(`Pack layers (mornings/evenings cooler than afternoons).`);
+      } else {
+        parts.push(`Light layers should be fine for most of the week.`);
+      }
+    } else {
+      parts.push(`Pack flexible layers to handle changes through the week.`);
+    }
+
+    return parts.join(" ");
+  }
+
+  export const weatherTool: AgentTool<WeatherArgs, WeatherResult> = {
+    name: "getWeather",
+    title: "Weather",
+    schema: getWeatherToolSchema,
+    steps: [
+      { key: "plan",  label: "Planning" },
+      { key: "fetch", label: "Fetching Open-Meteo" },
+      { key: "parse", label: "Parsing" },
+      { key: "final", label: "Finalizing" },
+    ],
+    parseArgs(raw) {
+      const args: WeatherArgs = {
+        location: asString(raw.location),
+        latitude: asNumber(raw.latitude),
+        longitude: asNumber(raw.longitude),
+        startDate: asISODate(asString(raw.startDate)),
+        endDate: asISODate(asString(raw.endDate)),
+        days: asInt(raw.days, 1, 16),
+        units: asEnum(raw.units, ["auto", "metric", "imperial"] as const),
+      };
+      const hasCoords = args.latitude !== undefined && args.longitude !== undefined;
+      if (!args.location && !hasCoords) {
+        return { ok: false, question: "Which city or place should I check the forecast for?" };
+      }
+      return { ok: true, args };
+    },
+    preamble: (args) => `Sure — I’ll check the forecast for ${args.location ?? "that location"} using getWeather…`,
+    async execute(ctx, args, emit) {
+      emit("Fetching forecast from Open-Meteo…", "fetch");
+      return getWeather(args, ctx.signal);
+    },
+    summarize: (ctx, _userText, result) => summarizeWeatherOutcome(ctx, summarizeWeather(result)),
+  };
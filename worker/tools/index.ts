@@ -0,0 +1,34 @@
+/// <reference lib="webworker" />
+import type { AIToolDef } from "../../worker-configuration";
+import type { AgentTool } from "./types";
+import { weatherTool } from "./getWeather";
+import { screenshotTool } from "./captureScreenshot";
+import { pdfTool } from "./convertToPdf";
+import { scheduleTool } from "./scheduleTask";
+
+export type {
+  AgentTool, ArgsCheck, CaptureMetrics, NavAttempt, TaskInfo, TaskScheduler, TaskSpec, TaskWhen, ToolContext, ToolEmit, ToolEvent, ToolResult, ToolStep,
+} from "./types";
+export { deploymentMcpServers, parseSessionMcpServer, remoteFunctionName, remoteTool } from "./remoteMcp";
+export type { McpServerConfig, McpServerView, RemoteToolDef, RemoteToolResult } from "./remoteMcp";
+
+/**
+ * Tool registry. To add a tool, create worker/tools/<yourTool>.ts exporting an
+ * AgentTool and list it here; the agent picks it up automatically.
+ */
+const TOOLS: AgentTool[] = [weatherTool, screenshotTool, pdfTool, scheduleTool];
+
+/** Lookup by wire tag (ToolEvent.tool / persisted rows) */
+export function getTool(name: string): AgentTool | undefined {
+  return TOOLS.find((t) => t.name === name);
+}
+
+/** Lookup by the function name the model calls (schema.function.name) */
+export function getToolByFunction(fn: string): AgentTool | undefined {
+  return TOOLS.find((t) => t.schema.function.name === fn);
+}
+
+/** All function schemas, for the planner's `tools` field */
+export function toolSchemas(): AIToolDef[] {
+  return TOOLS.map((t) => t.schema);
+}
@@ -0,0 +1,175 @@
+/// <reference lib="webworker" />
+import type { Env } from "../../worker-configuration";
+import type { AgentTool, ToolContext } from "./types";
+import { summarizeRemoteOutcome } from "./summarize";
+
+/**
+ * Tools discovered on external MCP servers. The agent connects to the servers
+ * (Agents SDK `addMcpServer`), lists their tools and wraps each allowed one in
+ * an AgentTool, so remote calls go through the same pipeline as local tools:
+ * preamble → progress → persisted row → summary. On the wire every remote
+ * tool is tagged "mcp" and the SPA renders it as a generic card.
+ */
+
+/** A server from the MCP_SERVERS var (connected for every session) or added by a client */
+export type McpServerConfig = {
+  name: string;
+  url: string;
+  allow?: string[];                  // tool names; unset = every tool the server lists
+  headers?: Record<string, string>;  // e.g. Authorization for servers without OAuth
+};
+
+/** A connected server as clients see it ({type:"mcp"} frames, ready) */
+export type McpServerView = {
+  id: string;
+  name: string;
+  url: string;
+  source: "deployment" | "session";
+  allow?: string[];
+  state: "authenticating" | "connecting" | "ready" | "discovering" | "failed";
+  authUrl?: string | null;   // open to authorize when state is "authenticating"
+  tools: string[];           // every tool the server lists (`allow` narrows what the planner sees)
+};
+
+/** A remote tool as the SDK lists it */
+export type RemoteToolDef = {
+  serverId: string;
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+};
+
+export type RemoteToolResult =
+  | {
+      ok: true;
+      kind: "mcp";
+      server: string;
+      tool: string;
+      text: string;                  // text content joined; other parts as placeholders
+    }
+  | {
+      ok: false;
+      error: string;
+      code: "MCP_ERROR" | "MCP_UNAVAILABLE" | "CANCELLED";
+    };
+
+/** Runs a call on the server that listed the tool */
+export type RemoteCall = (
+  def: RemoteToolDef,
+  args: Record<string, unknown>,
+  signal: AbortSignal
+) => Promise<unknown>;
+
+/** Deployment servers: MCP_SERVERS var, a JSON array of McpServerConfig (bad entries are skipped) */
+export function deploymentMcpServers(env: Env): McpServerConfig[] {
+  if (!env.MCP_SERVERS) return [];
+  try {
+    const list = JSON.parse(env.MCP_SERVERS) as unknown;
+    if (!Array.isArray(list)) return [];
+    return list.filter(
+      (s): s is McpServerConfig => !!s && typeof s.name === "string" && typeof s.url === "string" && /^https?:\/\//.test(s.url)
+    );
+  } catch {
+    console.log("[mcp] MCP_SERVERS is not valid JSON");
+    return [];
+  }
+}
+
+/** Request headers a client may set on a server it adds (credentials only) */
+const CLIENT_HEADERS = ["authorization", "x-api-key"];
+
+/**
+ * Validate a client's mcp_add server. The agent makes these requests itself, so
+ * clients get https:// only (plain http just for localhost while the worker is
+ * served from localhost, i.e. `wrangler dev`) and credential headers only.
+ */
+export function parseSessionMcpServer(
+  raw: unknown,
+  host: string // the worker's own origin
+): { ok: true; server: McpServerConfig } | { ok: false; error: string } {
+  const cfg = raw && typeof raw === "object" ? (raw as Partial<McpServerConfig>) : undefined;
+  const name = typeof cfg?.name === "string" ? cfg.name.trim() : "";
+  if (!name || name.length > 40) return { ok: false, error: "Server name is required (up to 40 characters)" };
+
+  let url: URL;
+  try {
+    url = new URL(typeof cfg?.url === "string" ? cfg.url.trim() : "");
+  } catch {
+    return { ok: false, error: "Server URL must be an absolute https:// URL" };
+  }
+  const local = (h: string) => h === "localhost" || h === "127.0.0.1" || h === "[::1]";
+  const devHttp = url.protocol === "http:" && local(url.hostname) && host.startsWith("http://") && local(new URL(host).hostname);
+  if (url.protocol !== "https:" && !devHttp) return { ok: false, error: "Server URL must be an absolute https:// URL" };
+
+  let headers: Record<string, string> | undefined;
+  if (cfg?.headers !== undefined) {
+    if (!cfg.headers || typeof cfg.headers !== "object" || Array.isArray(cfg.headers)) {
+      return { ok: false, error: "Headers must be an object of strings" };
+    }
+    headers = {};
+    for (const [k, v] of Object.entries(cfg.headers as Record<string, unknown>)) {
+      if (!CLIENT_HEADERS.includes(k.toLowerCase())) return { ok: false, error: `Header "${k}" is not allowed (use ${CLIENT_HEADERS.join(", ")})` };
+      if (typeof v !== "string" || !v || v.length > 2048 || /[\r\n]/.test(v)) return { ok: false, error: `Header "${k}" must be a single-line string` };
+      headers[k] = v;
+    }
+  }
+
+  const allow = Array.isArray(cfg?.allow) ? cfg.allow.filter((t): t is string => typeof t === "string") : undefined;
+  return { ok: true, server: { name, url: url.toString(), allow, headers } };
+}
+
+/** Planner function name: mcp_<server>__<tool>, limited to what function calling accepts */
+export function remoteFunctionName(server: string, tool: string): string {
+  const slug = (s: string) => s.toLowerCase().replace(/[^a-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+  return `mcp_${slug(server)}__${slug(tool)}`.slice(0, 64);
+}
+
+/** Flatten MCP content parts into text the model and the card can show */
+function contentText(result: unknown): string {
+  const parts = (result as { content?: unknown })?.content;
+  if (!Array.isArray(parts)) return JSON.stringify(result ?? null);
+  return parts
+    .map((p: { type?: string; text?: string; uri?: string; name?: string; resource?: { uri?: string; text?: string } }) => {
+      if (p?.type === "text") return p.text ?? "";
+      if (p?.type === "resource_link") return `[${p.name ?? "resource"}](${p.uri ?? ""})`;
+      if (p?.type === "resource") return p.resource?.text ?? `[resource ${p.resource?.uri ?? ""}]`;
+      return `[${p?.type ?? "content"}]`;
+    })
+    .filter(Boolean)
+    .join("\n");
+}
+
+export function remoteTool(serverName: string, def: RemoteToolDef, call: RemoteCall): AgentTool<Record<string, unknown>, RemoteToolResult> {
+  const fn = remoteFunctionName(serverName, def.name);
+  return {
+    name: "mcp",
+    title: `${def.name} (${serverName})`,
+    steps: [{ key: "call", label: `Calling ${serverName}` }],
+    schema: {
+      type: "function",
+      function: {
+        name: fn,
+        description: `[${serverName}] ${def.description ?? def.name}`.slice(0, 1000),
+        parameters: def.inputSchema ?? { type: "object", properties: {} },
+      },
+    },
+    // The server validates its own arguments
+    parseArgs: (raw) => ({ ok: true, args: raw }),
+    preamble: () => `Calling ${def.name} on ${serverName}…`,
+    async execute(ctx: ToolContext, args, emit): Promise<RemoteToolResult> {
+      emit?.(`Calling ${serverName}…`, "call");
+      try {
+        const result = await call(def, args, ctx.signal);
+        if (ctx.signal.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED" };
+        const text = contentText(result).slice(0, 8000);
+        if ((result as { isError?: boolean })?.isError) return { ok: false, error: text || "The tool reported an error", code: "MCP_ERROR" };
+        return { ok: true, kind: "mcp", server: serverName, tool: def.name, text };
+      } catch (e) {
+        if (ctx.signal.aborted) return { ok: false, error: "Cancelled", code: "CANCELLED" };
+        console.log("[mcp] call failed", { server: serverName, tool: def.name, error: (e as Error)?.message });
+        return { ok: false, error: `${serverName} is unavailable`, code: "MCP_UNAVAILABLE" };
+      }
+    },
+    summarize: (ctx, userText, result) => summarizeRemoteOutcome(ctx, userText, `${def.name} on ${serverName}`, result),
+  };
+}
@@ -0,0 +1,110 @@
+/// <reference lib="webworker" />
+import type { AgentTool, TaskInfo, TaskSpec, TaskWhen } from "./types";
+import { asInt, asRecord, asString } from "./args";
+
+/**
+ * Turn "every morning send me the Montreal forecast" into a scheduled task.
+ * The agent owns the actual scheduling (ctx.tasks); at run time the task goes
+ * through the normal tool pipeline, so results land in the conversation.
+ */
+
+export type ScheduleResult =
+  | { ok: true; task: TaskInfo }
+  | { ok: false; error: string; code?: "UNSUPPORTED" | "SCHEDULE_FAILED" };
+
+/** Tools a task may run ("reminder" just posts its text) */
+const TASK_TOOLS = ["getWeather", "captureScreenshot", "convertToPdf", "reminder"] as const;
+
+const MAX_DELAY_S = 366 * 86_400;
+
+/** Five whitespace-separated cron fields; the scheduler validates the rest */
+function asCron(v: unknown): string | undefined {
+  const s = asString(v);
+  return s && /^(\S+\s+){4}\S+$/.test(s) ? s.replace(/\s+/g, " ") : undefined;
+}
+
+/** ISO date-time in the future */
+function asFutureDate(v: unknown): string | undefined {
+  const s = asString(v);
+  const t = s ? Date.parse(s) : NaN;
+  return Number.isFinite(t) && t > Date.now() ? new Date(t).toISOString() : undefined;
+}
+
+function describeWhen(task: TaskInfo): string {
+  const next = new Date(task.time).toISOString().slice(0, 16).replace("T", " ");
+  return task.cron ? `on schedule \`${task.cron}\` (UTC), next run ${next} UTC` : `at ${next} UTC`;
+}
+
+export const scheduleTaskToolSchema = {
+  type: "function",
+  function: {
+    name: "scheduleTask",
+    description:
+      "Schedule a one-off or recurring task for later: run getWeather, captureScreenshot or convertToPdf at that time, or post a reminder.",
+    parameters: {
+      type: "object",
+      properties: {
+        description: { type: "string", description: "Short label, e.g. 'Montreal forecast every morning'" },
+        tool: { type: "string", enum: [...TASK_TOOLS], description: "What to run when the task fires" },
+        args: {
+          type: "object",
+          description: "Arguments for that tool, exactly as when calling it directly; for reminder: { text }",
+        },
+        cron: { type: "string", description: "Recurring: 5-field cron in UTC, e.g. '0 12 * * *' (daily 12:00 UTC)" },
+        at: { type: "string", description: "One-off: ISO 8601 date-time, e.g. '2025-06-01T13:00:00Z'" },
+        delaySeconds: { type: "integer", description: "One-off: run after this many seconds" },
+      },
+      required: ["description", "tool"],
+      additionalProperties: false,
+    },
+  },
+} as const;
+
+export const scheduleTool: AgentTool<TaskSpec, ScheduleResult> = {
+  name: "scheduleTask",
+  title: "Schedule",
+  schema: scheduleTaskToolSchema,
+  steps: [
+    { key: "validate", label: "Check task" },
+    { key: "schedule", label: "Schedule" },
+  ],
+  parseArgs(raw) {
+    const tool = TASK_TOOLS.find((t) => t === asString(raw.tool));
+    if (!tool) {
+      return { ok: false, question: "What should I do at that time — a forecast, a screenshot, a PDF, or a reminder?" };
+    }
+
+    const cron = asCron(raw.cron);
+    const at = asFutureDate(raw.at);
+    const delaySeconds = asInt(raw.delaySeconds, 1, MAX_DELAY_S);
+    const when: TaskWhen | undefined = cron ? { cron } : at ? { at } : delaySeconds ? { delaySeconds } : undefined;
+    if (!when) {
+      return {
+        ok: false,
+        question: "When should it run — once at a specific time (e.g. tomorrow 8:00) or on a repeat (e.g. every day at 7:00)?",
+      };
+    }
+
+    const args = { ...(asRecord(raw.args) ?? {}) };
+    const description = asString(raw.description) ?? (tool === "reminder" ? "Reminder" : tool);
+    if (tool === "reminder") {
+      const text = asString(args.text) ?? asString(raw.text);
+      if (!text) return { ok: false, question: "What should the reminder say?" };
+      args.text = text;
+    }
+    return { ok: true, args: { description, tool, args, when } };
+  },
+  preamble: (spec) => `Okay — I’ll schedule “${spec.description}”…`,
+  async execute(ctx, spec, emit) {
+    if (!ctx.tasks) return { ok: false, error: "Scheduling isn't available here.", code: "UNSUPPORTED" };
+    emit("Checking the task…", "validate");
+    const out = await ctx.tasks.create(spec);
+    if (!out.ok) return { ok: false, error: out.error, code: "SCHEDULE_FAILED" };
+    emit("Task scheduled", "schedule");
+    return { ok: true, task: out.task };
+  },
+  summarize: async (_ctx, _userText, result) =>
+    result.ok
+      ? `Scheduled “${result.task.description}” ${describeWhen(result.task)}. Results will show up here; manage tasks from the Schedules panel.`
+      : `I couldn't schedule that: ${result.error}`,
+};
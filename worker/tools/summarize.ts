@@ -0,0 +1,120 @@
+/// <reference lib="webworker" />
+import type { ChatMessage } from "../../worker-configuration";
+import type { ToolContext } from "./types";
+import { aiText } from "../ai";
+import { composeSystemPrompt, summarySampling } from "../settings";
+import type { ScreenshotResult } from "./captureScreenshot";
+import type { PdfResult } from "./convertToPdf";
+import type { RemoteToolResult } from "./remoteMcp";
+
+type CaptureResult = ScreenshotResult | PdfResult;
+
+function hostOf(u: string | undefined): string {
+  try { return u ? new URL(u).hostname : "page"; } catch { return "page"; }
+}
+
+/** Deterministic line used when AI isn't available or the call fails */
+function fallbackSummary(tool: "screenshot" | "convertToPdf", r: CaptureResult): string {
+  if (r.ok) {
+    const title = hostOf(r.sourceUrl);
+    if (r.kind === "screenshot") {
+      const dims = r.width && r.height ? ` (${r.width}×${r.height})` : "";
+      return `Captured “${title}”${dims}. Use the link above to open or download.`;
+    }
+    return `Rendered “${title}” to PDF. Use the link above to open or download.`;
+  }
+  return `The ${tool === "screenshot" ? "screenshot" : "PDF"} step failed (${r.code}). You can retry with a longer timeout or a different URL.`;
+}
+
+// --- Agentic summary helper (safe, non-streaming) --------------------------
+export async function summarizeCaptureOutcome(
+  ctx: ToolContext,
+  userQuery: string,
+  tool: "screenshot" | "convertToPdf",
+  result: CaptureResult
+): Promise<string> {
+  if (!ctx.model) return fallbackSummary(tool, result);
+
+  try {
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: composeSystemPrompt(
+          "Explain the outcome of a web capture tool (screenshot or PDF) in 1–3 sentences. " +
+          "Be factual and concise. If navigation timed out or required a fallback (e.g., used 'load' instead of 'networkidle0'), or redirected, mention it briefly. " +
+          "Offer one concrete suggestion if helpful (e.g., adjust viewport, increase timeout). The link is already shown; don't repeat it.",
+          ctx.settings
+        ),
+      },
+      {
+        role: "user",
+        content:
+          `User request:\n${userQuery}\n\n` +
+          `Tool: ${tool}\n\n` +
+          `Result JSON (truncated):\n${JSON.stringify(result).slice(0, 1800)}`
+      }
+    ];
+
+    const out = await ctx.env.AI.run(ctx.model, { messages, ...summarySampling(ctx.settings, { temperature: 0.2, maxTokens: 150 }) });
+    return (await aiText(out)) || fallbackSummary(tool, result);
+  } catch {
+    return fallbackSummary(tool, result);
+  }
+}
+
+/** Outcome of a remote MCP tool (see remoteMcp.ts): the model answers from the tool's text */
+export async function summarizeRemoteOutcome(
+  ctx: ToolContext,
+  userQuery: string,
+  label: string,
+  result: RemoteToolResult
+): Promise<string> {
+  const fallback = result.ok
+    ? result.text.slice(0, 1200) || `${label} finished with no output.`
+    : `${label} failed (${result.code}): ${result.error}`;
+  if (!ctx.model || !result.ok) return fallback;
+
+  try {
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: composeSystemPrompt(
+          "Answer the user's request from the output of an external tool, in at most a short paragraph or list. " +
+          "Use only facts present in the output; say so if it doesn't answer the request.",
+          ctx.settings
+        ),
+      },
+      { role: "user", content: `User request:\n${userQuery}\n\nTool: ${label}\n\nOutput (truncated):\n${result.text.slice(0, 6000)}` },
+    ];
+    const out = await ctx.env.AI.run(ctx.model, { messages, ...summarySampling(ctx.settings, { temperature: 0.2, maxTokens: 400 }) });
+    return (await aiText(out)) || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Weather keeps its deterministic numbers; with a reply language or persona set,
+ * the model only restates that summary in the session's voice.
+ */
+export async function summarizeWeatherOutcome(ctx: ToolContext, fallback: string): Promise<string> {
+  if (!ctx.model || (!ctx.settings.language && !ctx.settings.persona)) return fallback;
+
+  try {
+    const messages: ChatMessage[] = [
+      {
+        role: "system",
+        content: composeSystemPrompt(
+          "Restate the weather summary below for the user. Keep every number, unit, place and date exactly as given; " +
+          "add no facts and no preamble.",
+          ctx.settings
+        ),
+      },
+      { role: "user", content: `Weather summary:\n${fallback}` },
+    ];
+    const out = await ctx.env.AI.run(ctx.model, { messages, ...summarySampling(ctx.settings, { temperature: 0.2, maxTokens: 200 }) });
+    return (await aiText(out)) || fallback;
+  } catch {
+    return fallback;
+  }
+}
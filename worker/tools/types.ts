@@ -0,0 +1,110 @@
+/// <reference lib="webworker" />
+import type { AIToolDef, Env } from "../../worker-configuration";
+import type { SessionSettings } from "../settings";
+
+/** One progress step a tool walks through (rendered by the SPA ToolCard) */
+export type ToolStep = { key: string; label: string };
+
+/** Progress callback: human-readable message + optional step key from `steps` */
+export type ToolEmit = (msg: string, step?: string) => void;
+
+/** Every tool result is discriminated on `ok` */
+export type ToolResult = { ok: true } | { ok: false; error: string; code?: string };
+
+/** Tool progress frame sent to clients (and to webhooks for done/error) */
+export type ToolEvent = {
+  type: "tool";
+  tool: "getWeather" | "screenshot" | "convertToPdf" | string;
+  callId?: string;                             // one id per tool run (one card per step)
+  status?: "started" | "step" | "done" | "error";
+  message?: string;
+  code?: string;                               // error: machine-readable code (e.g. CANCELLED)
+  result?: unknown;
+  title?: string;                              // started: card title
+  steps?: Array<{ key: string; label: string }>; // started: ordered progress steps
+  step?: string;                               // step: key of the step now active
+};
+
+/** One navigation try (browser tools fall back through wait conditions, then www.) */
+export type NavAttempt = { waitUntil: string; ms: number; outcome: "ok" | "timeout" | "fail" };
+
+/**
+ * Where a browser tool run spent its time (ms). Failed runs carry what was
+ * measured before they stopped; steps not reached are 0.
+ */
+export type CaptureMetrics = {
+  totalMs: number;           // browser launch → result
+  navMs: number;             // every navigation attempt
+  settleMs: number;
+  captureMs?: number;        // captureScreenshot
+  renderMs?: number;         // convertToPdf
+  uploadMs: number;
+  navAttempts: number;
+  attempts: NavAttempt[];    // in order; the last "ok" one is the page that was captured
+};
+
+/** Outcome of validating model-produced arguments */
+export type ArgsCheck<A> = { ok: true; args: A } | { ok: false; question: string };
+
+/** What the agent hands to a tool for one run */
+export type ToolContext = {
+  env: Env;
+  sid: string;   // agent name == session id
+  model: string; // session model (used for agentic summaries)
+  settings: SessionSettings; // persona, reply language and sampling for summaries
+  signal: AbortSignal; // aborted when the client sends {type:"cancel"}
+  messageId?: number | null; // row this run hangs off (its preamble); recorded on artifacts
+  tasks?: TaskScheduler; // set by the agent; absent where scheduling isn't supported
+};
+
+/** When a scheduled task fires: cron (UTC, recurring), ISO date-time, or a delay */
+export type TaskWhen = { cron: string } | { at: string } | { delaySeconds: number };
+
+/** A task to run later: a registered tool (by function name) or a plain reminder */
+export type TaskSpec = {
+  description: string;
+  tool: string; // schema.function.name, or "reminder" (args.text)
+  args: Record<string, unknown>;
+  when: TaskWhen;
+};
+
+/** A pending scheduled task as listed to clients */
+export type TaskInfo = {
+  id: string;
+  description: string;
+  tool: string;
+  type: "scheduled" | "delayed" | "cron";
+  time: number;  // next run (epoch ms)
+  cron?: string;
+};
+
+/** Agent-side scheduling surface handed to tools (see scheduleTask); bound to the current turn */
+export type TaskScheduler = {
+  /** Validates `spec.args` with the target tool, then schedules it */
+  create(spec: TaskSpec): Promise<{ ok: true; task: TaskInfo } | { ok: false; error: string }>;
+};
+
+/**
+ * A registered tool. The agent runs every tool through the same pipeline:
+ * preamble → started → step* → done/error → persist → summary.
+ */
+export type AgentTool<A = Record<string, unknown>, R extends ToolResult = ToolResult> = {
+  /** Tag used on the wire (ToolEvent.tool) and in persisted tool rows */
+  name: string;
+  /** Card title shown in the SPA */
+  title: string;
+  /** Function schema shown to the planner; `schema.function.name` is what the model calls */
+  schema: AIToolDef;
+  /** Ordered progress steps; `emit(msg, key)` activates a step */
+  steps: ToolStep[];
+  /**
+   * Validate/coerce raw planner arguments. Return a clarifying question instead
+   * of guessing when a required input (location, URL…) is missing.
+   */
+  parseArgs(raw: Record<string, unknown>, userText: string): ArgsCheck<A>;
+  /** Short "I'm on it" line sent before the tool runs */
+  preamble(args: A): string;
+  execute(ctx: ToolContext, args: A, emit: ToolEmit): Promise<R>;
+  /** 1–3 sentence outcome shown after the tool card (success or failure) */
+  summarize(ctx: ToolContext, userText: string, result: R): Promise<string>;
+};
@@ -0,0 +1,162 @@
+/// <reference lib="webworker" />
+import type { Env } from "../worker-configuration";
+import type { ToolEvent } from "./tools";
+import { fileUrlsRevokedAt, signFileUrl } from "./files";
+
+/**
+ * Outbound webhooks: per-session subscriptions that POST a JSON event to a URL
+ * when a tool finishes (`tool.done` / `tool.error`) or an assistant line is
+ * saved (`assistant.message`). The agent keeps subscriptions and a delivery
+ * log in its SQLite store and retries failed deliveries with backoff (SDK
+ * schedules), so a subscriber that is down for a while still gets the event.
+ *
+ * Every request is signed: `x-webhook-signature: sha256=<hex HMAC-SHA256(secret, "<timestamp>.<body>")>`
+ * with `x-webhook-timestamp` (epoch seconds). The secret is returned once,
+ * when the subscription is created.
+ */
+
+export const WEBHOOK_EVENTS = ["tool.done", "tool.error", "assistant.message"] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+/** Attempts per delivery (the first one included) */
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+
+/** Wait before retry n (1-based): 30 s, 2 min, 10 min, 1 h, 6 h */
+const RETRY_DELAYS = [30, 120, 600, 3600, 21600];
+
+/** Per-request timeout; a slow subscriber counts as a failed attempt */
+export const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/** Finished deliveries are kept in the log this long */
+export const DELIVERY_LOG_DAYS = 7;
+
+/** A subscription as listed by the API (the secret is only shown at creation) */
+export type Webhook = {
+  id: string;
+  url: string;
+  events: WebhookEvent[];
+  createdAt: number;
+};
+
+export type DeliveryStatus = "pending" | "delivered" | "failed";
+
+/** One row of the delivery log */
+export type WebhookDelivery = {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  status: DeliveryStatus;
+  attempts: number;
+  responseStatus: number | null; // HTTP status of the last attempt (null = no response)
+  error: string | null;          // last failure
+  createdAt: number;
+  nextAttemptAt: number | null;  // pending: when the next retry runs
+  deliveredAt: number | null;
+};
+
+/** Request body; `data` is the tool frame clients get, or the saved assistant line */
+export type WebhookPayload = {
+  id: string;            // delivery id (stable across retries; dedupe on it)
+  event: WebhookEvent;
+  sessionId: string;
+  createdAt: number;     // epoch ms
+  data: ToolEvent | { messageId: number; text: string; model: string | null };
+};
+
+type Check = { ok: true; url: string; events: WebhookEvent[]; secret?: string } | { ok: false; error: string };
+
+/** Validate POST …/webhooks {url, events?, secret?}; events default to all of them */
+export function parseWebhook(raw: unknown): Check {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return { ok: false, error: "Body must be a JSON object" };
+  const r = raw as Record<string, unknown>;
+  let url: URL;
+  try {
+    url = new URL(String(r.url ?? ""));
+  } catch {
+    return { ok: false, error: "`url` must be an absolute https:// URL" };
+  }
+  if (url.protocol !== "https:") return { ok: false, error: "`url` must be an absolute https:// URL" };
+
+  const events = r.events === undefined ? [...WEBHOOK_EVENTS] : r.events;
+  if (!Array.isArray(events) || !events.length) return { ok: false, error: "`events` must be a non-empty array" };
+  const unknown = events.find((e) => !WEBHOOK_EVENTS.includes(e as WebhookEvent));
+  if (unknown !== undefined) return { ok: false, error: `Unknown event "${String(unknown)}" (use ${WEBHOOK_EVENTS.join(", ")})` };
+
+  if (r.secret !== undefined && (typeof r.secret !== "string" || r.secret.length < 16 || r.secret.length > 256)) {
+    return { ok: false, error: "`secret` must be a string of 16–256 characters" };
+  }
+  return { ok: true, url: url.toString(), events: [...new Set(events as WebhookEvent[])], secret: r.secret as string | undefined };
+}
+
+/** Random signing secret for subscriptions created without one */
+export function webhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${[...bytes].map((b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** Seconds to wait before the next attempt, or null once attempts are used up */
+export function retryDelaySeconds(attempts: number): number | null {
+  if (attempts >= MAX_WEBHOOK_ATTEMPTS) return null;
+  return RETRY_DELAYS[Math.min(attempts, RETRY_DELAYS.length) - 1]!;
+}
+
+/**
+ * Payload as sent on this attempt: a tool result's artifact link is signed
+ * afresh (retries can outlive FILE_URL_TTL_MINUTES) as a webhook-scoped link,
+ * which opens without the session token, and made absolute under `origin`.
+ * The link keeps the event's time as `iat`, so revoking the session's links
+ * still covers it; once the session was reset or expired after the event
+ * (`since`: its current createdAt), its links were revoked, or the file is
+ * gone, the link is dropped (`url: null`).
+ */
+export async function withFreshLink(env: Env, payload: WebhookPayload, origin: string, since: number): Promise<WebhookPayload> {
+  const data = payload.data as ToolEvent;
+  const result = data.result as { ok?: boolean; r2Key?: unknown } | undefined;
+  if (data.type !== "tool" || !result?.ok || typeof result.r2Key !== "string") return payload;
+
+  const revoked =
+    payload.createdAt < since ||
+    (await fileUrlsRevokedAt(env, payload.sessionId)) >= payload.createdAt ||
+    !(await env.agent_browser_uploads.head(result.r2Key));
+  if (revoked) return { ...payload, data: { ...data, result: { ...result, url: null, urlExpiresAt: null } } };
+
+  const link = await signFileUrl(env, result.r2Key, "webhook", payload.createdAt);
+  return { ...payload, data: { ...data, result: { ...result, url: new URL(link.url, origin).toString(), urlExpiresAt: link.expiresAt } } };
+}
+
+/** `sha256=<hex>` over "<timestamp>.<body>" */
+export async function signWebhook(secret: string, timestamp: number, body: string): Promise<string> {
+  const enc = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", enc.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  const sig = await crypto.subtle.sign("HMAC", key, enc.encode(`${timestamp}.${body}`));
+  return `sha256=${[...new Uint8Array(sig)].map((b) => b.toString(16).padStart(2, "0")).join("")}`;
+}
+
+/** One signed POST; returns the response status, or an error when there was none */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  payload: WebhookPayload
+): Promise<{ ok: boolean; status: number | null; error: string | null }> {
+  const body = JSON.stringify(payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "cf-ai-agent-webhooks/1",
+        "x-webhook-id": payload.id,
+        "x-webhook-event": payload.event,
+        "x-webhook-timestamp": String(timestamp),
+        "x-webhook-signature": await signWebhook(secret, timestamp, body),
+      },
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    await res.body?.cancel();
+    return res.ok ? { ok: true, status: res.status, error: null } : { ok: false, status: res.status, error: `HTTP ${res.status}` };
+  } catch (e) {
+    return { ok: false, status: null, error: e instanceof Error ? e.message : String(e) };
+  }
+}